@@ -5,6 +5,26 @@ type ChatHistoryItem = {
   content: string;
 };
 
+type SymbolMeaningItem = {
+  label: string;
+  personalMeaning: string;
+  valence?: number;
+  confidence?: number;
+  linkedDomains?: string[];
+};
+
+type JourneyContextItem = {
+  nodeId: string;
+  title: string;
+  depth?: number;
+  completedAt?: string | null;
+  passes?: number;
+  revisiting?: boolean;
+  personalizedSummary?: string;
+  progressNotes?: string;
+  motifs?: string[];
+};
+
 type ChatRequest = {
   nodeId: string;
   threadId: string;
@@ -16,10 +36,139 @@ type ChatRequest = {
   currentNodeId?: string | null;
   currentSpiralOrder?: number | null;
   history?: ChatHistoryItem[];
+  symbolMeanings?: SymbolMeaningItem[]; // relevance-ranked, most relevant first
+  threadSummary?: { summary: string; keyMotifs?: string[] } | null; // covers turns before `history`
+  journeyContext?: JourneyContextItem[]; // dependency ancestors, nearest first
   apiKey?: string;
   model?: string;
 };
 
+function parseSseDeltas(buffer: string) {
+  const lines = buffer.split("\n");
+  const rest = lines.pop() ?? "";
+  const deltas: string[] = [];
+  let done = false;
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) continue;
+    const data = trimmed.slice("data:".length).trim();
+    if (data === "[DONE]") {
+      done = true;
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(data);
+      const delta = parsed?.choices?.[0]?.delta?.content;
+      if (typeof delta === "string" && delta) deltas.push(delta);
+    } catch {
+      // Ignore keep-alives and malformed fragments.
+    }
+  }
+  return { deltas, rest, done };
+}
+
+// Rough token estimate (~4 chars/token) used for prompt budgeting.
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+const SYMBOL_BLOCK_TOKEN_BUDGET = 600;
+
+function formatSymbolMeaning(item: SymbolMeaningItem) {
+  const details: string[] = [];
+  if (item.valence != null) details.push(`valence ${item.valence > 0 ? `+${item.valence}` : item.valence}`);
+  if (item.confidence != null) details.push(`confidence ${Math.round(item.confidence * 100)}%`);
+  if (item.linkedDomains?.length) details.push(`domains: ${item.linkedDomains.join(", ")}`);
+  const meaning = item.personalMeaning.replace(/\s+/g, " ").trim();
+  return `- ${item.label}: ${meaning}${details.length ? ` (${details.join("; ")})` : ""}`;
+}
+
+/**
+ * Renders the personal symbol library slice; items are added in the given (relevance) order
+ * until the token budget is exhausted.
+ */
+function buildSymbolBlock(items: SymbolMeaningItem[] | undefined, budget = SYMBOL_BLOCK_TOKEN_BUDGET) {
+  const valid = (items ?? []).filter(
+    (item) => typeof item?.label === "string" && typeof item?.personalMeaning === "string" && item.personalMeaning.trim()
+  );
+  if (!valid.length) return null;
+
+  const header = "Personal symbol library (user's own meanings; use these before archetypal readings):";
+  let used = estimateTokens(header);
+  const lines: string[] = [];
+  for (const item of valid) {
+    const line = formatSymbolMeaning(item);
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > budget) break;
+    lines.push(line);
+    used += cost;
+  }
+  if (!lines.length) return null;
+  const omitted = valid.length - lines.length;
+  if (omitted > 0) lines.push(`- (+${omitted} more omitted for length)`);
+  return [header, ...lines].join("\n");
+}
+
+const JOURNEY_BLOCK_TOKEN_BUDGET = 500;
+const JOURNEY_FIELD_MAX_CHARS = 280;
+
+function clipText(text: string, max: number) {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+function formatJourneyItem(item: JourneyContextItem) {
+  const passes = item.passes ?? 0;
+  const status = item.revisiting
+    ? `revisiting after ${passes} pass(es)`
+    : !item.completedAt
+      ? "in progress"
+      : passes > 1
+        ? `completed ${passes} times`
+        : "completed";
+  const lines = [`- ${item.title} (${item.nodeId}; ${status})`];
+  if (item.personalizedSummary?.trim()) {
+    lines.push(`  summary: ${clipText(item.personalizedSummary, JOURNEY_FIELD_MAX_CHARS)}`);
+  }
+  if (item.progressNotes?.trim()) {
+    lines.push(`  notes: ${clipText(item.progressNotes, JOURNEY_FIELD_MAX_CHARS)}`);
+  }
+  if (item.motifs?.length) lines.push(`  motifs: ${item.motifs.join(", ")}`);
+  return lines.join("\n");
+}
+
+/**
+ * Digest of earlier (prerequisite) nodes, nearest first, bounded by a token budget.
+ */
+function buildJourneyBlock(items: JourneyContextItem[] | undefined, budget = JOURNEY_BLOCK_TOKEN_BUDGET) {
+  const valid = (items ?? []).filter((item) => typeof item?.nodeId === "string" && typeof item?.title === "string");
+  if (!valid.length) return null;
+
+  const header = "Journey so far (what the user worked out in prerequisite nodes; reference, don't re-do):";
+  let used = estimateTokens(header);
+  const parts: string[] = [];
+  for (const item of valid) {
+    const part = formatJourneyItem(item);
+    const cost = estimateTokens(part) + 1;
+    if (used + cost > budget) break;
+    parts.push(part);
+    used += cost;
+  }
+  if (!parts.length) return null;
+  return [header, ...parts].join("\n");
+}
+
+function buildThreadSummaryBlock(threadSummary: ChatRequest["threadSummary"]) {
+  const summary = threadSummary?.summary?.trim();
+  if (!summary) return null;
+  const motifs = threadSummary?.keyMotifs?.length ? threadSummary.keyMotifs.join(", ") : "None";
+  return [
+    "Earlier in this thread (summary of turns not shown below):",
+    summary,
+    `Key motifs: ${motifs}`,
+  ].join("\n");
+}
+
 function buildStateBlock(payload: ChatRequest) {
   const unmet = payload.unmetDependencies?.length
     ? payload.unmetDependencies.join(", ")
@@ -50,10 +199,16 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Missing OpenAI API key." }, { status: 400 });
   }
 
+  const symbolBlock = buildSymbolBlock(payload.symbolMeanings);
+  const summaryBlock = buildThreadSummaryBlock(payload.threadSummary);
+  const journeyBlock = buildJourneyBlock(payload.journeyContext);
   const systemPrompt = [
     payload.promptTemplate?.trim() || "You are a helpful assistant.",
     "",
     buildStateBlock(payload),
+    ...(journeyBlock ? ["", journeyBlock] : []),
+    ...(symbolBlock ? ["", symbolBlock] : []),
+    ...(summaryBlock ? ["", summaryBlock] : []),
   ].join("\n");
 
   const history = (payload.history ?? []).filter((item) =>
@@ -67,25 +222,70 @@ export async function POST(request: Request) {
       ...history.map((item) => ({ role: item.role, content: item.content })),
       { role: "user", content: payload.userMessage },
     ],
+    stream: true,
   };
 
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(body),
-  });
+  // Forward the client's abort signal so "Stop" cancels the upstream completion too.
+  let response: Response;
+  try {
+    response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "OpenAI request failed.";
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
 
   if (!response.ok) {
     const errorPayload = await response.json().catch(() => ({}));
     const errorMessage = errorPayload?.error?.message ?? "OpenAI request failed.";
     return NextResponse.json({ error: errorMessage }, { status: response.status });
   }
+  if (!response.body) {
+    return NextResponse.json({ error: "OpenAI returned an empty stream." }, { status: 502 });
+  }
 
-  const data = await response.json();
-  const assistant = data?.choices?.[0]?.message?.content ?? "";
+  // Re-emit the upstream SSE deltas as a plain chunked text stream.
+  const upstream = response.body.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
 
-  return NextResponse.json({ assistant });
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await upstream.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const parsed = parseSseDeltas(buffer);
+        buffer = parsed.rest;
+        for (const delta of parsed.deltas) controller.enqueue(encoder.encode(delta));
+        if (parsed.done) {
+          await upstream.cancel();
+          controller.close();
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await upstream.cancel().catch(() => undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
 }
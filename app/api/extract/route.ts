@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import {
+  normalizeExtractedSymbols,
+  stubExtractSymbols,
+  type ExtractionResult,
+} from "../../../symbol-extractor";
+
+type ExtractRequest = {
+  messageText: string;
+  nodeId?: string;
+  symbolFocus?: string[];
+  knownSymbols?: string[];
+  apiKey?: string;
+  model?: string;
+  mode?: "openai" | "stub";
+};
+
+const EXTRACT_INSTRUCTIONS = [
+  "You extract dream and life symbols from a user's message for a personal symbol library.",
+  "Return JSON only, shaped as:",
+  '{ "symbols": [ { "slug": string, "label": string, "category": "place"|"object"|"person"|"animal"|"action"|"emotion"|"other", "contextSnippet": string, "emotionTags": string[], "candidateMeanings": string[] } ] }',
+  "Rules:",
+  "- Only include concrete images or recurring motifs, at most 8.",
+  "- slug: lowercase snake_case singular noun; reuse a known symbol slug when it is the same symbol.",
+  "- contextSnippet: the shortest verbatim excerpt (max 160 chars) where the symbol appears.",
+  "- emotionTags: 0-3 single-word emotions present around the symbol.",
+  "- candidateMeanings: 2-3 short, tentative personal meanings; no certainty claims.",
+  "- If there are no symbols, return { \"symbols\": [] }.",
+].join("\n");
+
+async function runOpenAIExtract(payload: ExtractRequest, apiKey: string): Promise<ExtractionResult> {
+  const known = [...(payload.knownSymbols ?? []), ...(payload.symbolFocus ?? [])];
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: payload.model ?? "gpt-5-nano",
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: EXTRACT_INSTRUCTIONS },
+        {
+          role: "user",
+          content: [
+            `Known symbols: ${known.length ? Array.from(new Set(known)).join(", ") : "none"}`,
+            "",
+            "Message:",
+            payload.messageText,
+          ].join("\n"),
+        },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    const errorPayload = await response.json().catch(() => ({}));
+    throw new Error(errorPayload?.error?.message ?? "OpenAI extraction failed.");
+  }
+
+  const data = await response.json();
+  const content = String(data?.choices?.[0]?.message?.content ?? "{}");
+  let parsed: unknown = {};
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("Extraction model returned invalid JSON.");
+  }
+  return { symbols: normalizeExtractedSymbols(parsed), extractor: "openai" };
+}
+
+export async function POST(request: Request) {
+  const payload = (await request.json()) as ExtractRequest;
+  if (!payload?.messageText?.trim()) {
+    return NextResponse.json({ error: "messageText is required." }, { status: 400 });
+  }
+
+  const apiKey =
+    payload.apiKey ||
+    process.env.OPENAI_API_KEY ||
+    process.env.NEXT_PUBLIC_OPENAI_API_KEY;
+  const mode =
+    payload.mode ??
+    (process.env.SYMBOL_EXTRACT_MODE as ExtractRequest["mode"]) ??
+    (apiKey ? "openai" : "stub");
+
+  try {
+    if (mode === "openai" && apiKey) {
+      return NextResponse.json(await runOpenAIExtract(payload, apiKey));
+    }
+    const vocabulary = [...(payload.knownSymbols ?? []), ...(payload.symbolFocus ?? [])];
+    return NextResponse.json(stubExtractSymbols(payload.messageText, vocabulary));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Symbol extraction failed.";
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
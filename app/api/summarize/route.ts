@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+
+type SummarizeMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+type SummarizeRequest = {
+  kind?: "thread" | "node"; // rolling thread summary (default) or per-node personalized summary
+  nodeTitle?: string;
+  previousSummary?: string;
+  previousMotifs?: string[];
+  threadSummaries?: string[]; // node kind: existing summaries of the node's threads
+  messages: SummarizeMessage[];
+  apiKey?: string;
+  model?: string;
+};
+
+const SUMMARY_INSTRUCTIONS = [
+  "You maintain a rolling summary of a reflective journaling chat between a user and a node-agent.",
+  "Fold the new turns into the existing summary. Keep what still matters, drop small talk.",
+  "Return JSON only, shaped as:",
+  '{ "summary": string, "keyMotifs": string[] }',
+  "Rules:",
+  "- summary: at most 180 words, third person (\"The user…\"), hypothesis language, no diagnosis.",
+  "- Preserve concrete commitments, decisions, recurring images and personal symbol meanings.",
+  "- keyMotifs: 3-8 short lowercase phrases (recurring symbols, themes, tensions).",
+].join("\n");
+
+const NODE_SUMMARY_INSTRUCTIONS = [
+  "You write a personalized summary of what a user has worked out in one node of an individuation journey.",
+  "You receive summaries of the user's threads in this node and recent turns. Synthesize across threads.",
+  "Return JSON only, shaped as:",
+  '{ "summary": string, "keyMotifs": string[] }',
+  "Rules:",
+  "- summary: at most 150 words, second person (\"You…\"), hypothesis language, no diagnosis.",
+  "- Name insights reached, open questions, and any commitments the user made.",
+  "- keyMotifs: 3-8 short lowercase phrases.",
+].join("\n");
+
+function formatTranscript(messages: SummarizeMessage[]) {
+  return messages
+    .filter((m) => (m.role === "user" || m.role === "assistant") && m.content?.trim())
+    .map((m) => `${m.role === "user" ? "User" : "Agent"}: ${m.content.trim()}`)
+    .join("\n\n");
+}
+
+export async function POST(request: Request) {
+  const payload = (await request.json()) as SummarizeRequest;
+
+  const kind = payload?.kind ?? "thread";
+  const hasMessages = Array.isArray(payload?.messages) && payload.messages.length > 0;
+  const hasThreadSummaries = kind === "node" && Boolean(payload?.threadSummaries?.length);
+  if (!hasMessages && !hasThreadSummaries) {
+    return NextResponse.json({ error: "messages are required." }, { status: 400 });
+  }
+
+  const apiKey =
+    payload.apiKey ||
+    process.env.OPENAI_API_KEY ||
+    process.env.NEXT_PUBLIC_OPENAI_API_KEY;
+  if (!apiKey) {
+    return NextResponse.json({ error: "Missing OpenAI API key." }, { status: 400 });
+  }
+
+  const userContent =
+    kind === "node"
+      ? [
+          `Node: ${payload.nodeTitle ?? "Unknown"}`,
+          "",
+          "Current personalized summary:",
+          payload.previousSummary?.trim() || "(none)",
+          "",
+          "Thread summaries:",
+          payload.threadSummaries?.length
+            ? payload.threadSummaries.map((s) => `- ${s.trim()}`).join("\n")
+            : "(none)",
+          "",
+          "Recent turns:",
+          hasMessages ? formatTranscript(payload.messages) : "(none)",
+        ].join("\n")
+      : [
+          `Node: ${payload.nodeTitle ?? "Unknown"}`,
+          "",
+          "Existing summary:",
+          payload.previousSummary?.trim() || "(none)",
+          "",
+          `Existing motifs: ${payload.previousMotifs?.length ? payload.previousMotifs.join(", ") : "(none)"}`,
+          "",
+          "New turns to fold in:",
+          formatTranscript(payload.messages),
+        ].join("\n");
+
+  let response: Response;
+  try {
+    response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: payload.model ?? "gpt-5-nano",
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: kind === "node" ? NODE_SUMMARY_INSTRUCTIONS : SUMMARY_INSTRUCTIONS },
+          { role: "user", content: userContent },
+        ],
+      }),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "OpenAI request failed.";
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+
+  if (!response.ok) {
+    const errorPayload = await response.json().catch(() => ({}));
+    const errorMessage = errorPayload?.error?.message ?? "OpenAI request failed.";
+    return NextResponse.json({ error: errorMessage }, { status: response.status });
+  }
+
+  let parsed: { summary?: unknown; keyMotifs?: unknown } = {};
+  try {
+    const data = await response.json();
+    parsed = JSON.parse(String(data?.choices?.[0]?.message?.content ?? "{}"));
+  } catch {
+    return NextResponse.json({ error: "Summary model returned invalid JSON." }, { status: 502 });
+  }
+
+  const summary = typeof parsed.summary === "string" ? parsed.summary.trim() : "";
+  if (!summary) {
+    return NextResponse.json({ error: "Summary model returned an empty summary." }, { status: 502 });
+  }
+  const keyMotifs = Array.isArray(parsed.keyMotifs)
+    ? parsed.keyMotifs
+        .filter((m): m is string => typeof m === "string" && m.trim() !== "")
+        .map((m) => m.trim())
+        .slice(0, 8)
+    : [];
+
+  return NextResponse.json({ summary, keyMotifs });
+}
@@ -0,0 +1,7 @@
+"use client";
+
+import NodeAuthoring from "../../components/NodeAuthoring";
+
+export default function AuthoringPage() {
+  return <NodeAuthoring />;
+}
@@ -5,7 +5,9 @@ import ChatPage from "../../components/ChatPage";
 
 export default function ChatPageRoute() {
   const searchParams = useSearchParams();
-  const nodeId = searchParams.get("nodeId");
+  const nodeId = searchParams?.get("nodeId") ?? null;
+  const threadId = searchParams?.get("threadId") ?? null;
+  const messageId = searchParams?.get("messageId") ?? null;
 
-  return <ChatPage nodeId={nodeId} />;
+  return <ChatPage nodeId={nodeId} threadId={threadId} messageId={messageId} />;
 }
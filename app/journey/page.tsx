@@ -1,6 +1,8 @@
 "use client";
 
+import Link from "next/link";
 import JourneyMapCanvas from "../../components/JourneyMapCanvas";
+import PackSwitcher from "../../components/PackSwitcher";
 
 const legendItems = [
   { label: "Completed", className: "bg-emerald-500" },
@@ -18,6 +20,7 @@ export default function JourneyPage() {
           <h1 className="text-2xl font-semibold">Spiral + Tree Overview</h1>
         </div>
         <div className="flex flex-wrap items-center gap-4 text-xs text-slate-300">
+          <PackSwitcher />
           {legendItems.map((item) => (
             <div key={item.label} className="flex items-center gap-2">
               <span
@@ -27,6 +30,24 @@ export default function JourneyPage() {
               <span>{item.label}</span>
             </div>
           ))}
+          <Link
+            href="/progress"
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+          >
+            Progress
+          </Link>
+          <Link
+            href="/symbols"
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+          >
+            Symbol library
+          </Link>
+          <Link
+            href="/settings"
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+          >
+            Settings
+          </Link>
         </div>
       </header>
       <section className="relative flex-1">
@@ -1,5 +1,6 @@
 import "./globals.css";
 import type { Metadata } from "next";
+import VaultGate from "../components/VaultGate";
 
 export const metadata: Metadata = {
   title: "Idividream",
@@ -14,7 +15,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className="min-h-screen bg-slate-950 text-slate-50 antialiased">
-        {children}
+        <VaultGate>{children}</VaultGate>
       </body>
     </html>
   );
@@ -0,0 +1,7 @@
+"use client";
+
+import ProgressDashboard from "../../components/ProgressDashboard";
+
+export default function ProgressPage() {
+  return <ProgressDashboard />;
+}
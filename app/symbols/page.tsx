@@ -0,0 +1,7 @@
+"use client";
+
+import SymbolLibrary from "../../components/SymbolLibrary";
+
+export default function SymbolsPage() {
+  return <SymbolLibrary />;
+}
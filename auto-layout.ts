@@ -0,0 +1,233 @@
+// auto-layout.ts
+// Automatic ui_position layout: Archimedean spiral placement from spiral order, a radial tidy tree
+// from parent_id/branch, and collision resolution. The journey map uses it as a render fallback
+// (mode "missing"); the authoring page and scripts/layout-nodes.mjs write the result to nodes.json.
+
+import type { NodeDefinition, SpiralPosition, TreePosition } from "./types";
+
+// r = startRadius + radiusStep * (order - 1) at theta = startTheta + thetaStep * (order - 1),
+// i.e. an Archimedean spiral; the defaults reproduce the authored individuation spiral.
+export interface SpiralLayoutParams {
+  startTheta: number;
+  thetaStep: number;
+  startRadius: number;
+  radiusStep: number;
+}
+
+export const DEFAULT_SPIRAL_LAYOUT: SpiralLayoutParams = {
+  startTheta: 0.45,
+  thetaStep: 0.65,
+  startRadius: 120,
+  radiusStep: 18,
+};
+
+// Tree levels sit on rings around the root; each subtree gets an angle wedge sized by its leaf count.
+export const TREE_LEVEL_RADIUS = 140;
+// Minimum distance between any two nodes (spiral and tree share one coordinate space).
+export const LAYOUT_MIN_DIST = 32;
+const COLLISION_ITERATIONS = 60;
+
+export type AutoLayoutMode =
+  | "missing"  // place nodes without ui_position, resolve overlaps; authored positions otherwise kept
+  | "all";     // re-place every node from spiral order and the tree hierarchy
+
+export interface AutoLayoutResult {
+  nodes: NodeDefinition[];
+  placed: string[];  // nodes that had no ui_position
+  moved: string[];   // nodes whose position changed (placed ones included)
+}
+
+interface LayoutPoint {
+  id: string;
+  x: number;
+  y: number;
+  pinned: boolean;  // pinned points only move when they collide with another pinned point
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+export function spiralPositionForOrder(order: number, params = DEFAULT_SPIRAL_LAYOUT): SpiralPosition {
+  const step = order - 1;
+  return {
+    theta: round(params.startTheta + params.thetaStep * step, 2),
+    radius: round(params.startRadius + params.radiusStep * step, 1),
+    order,
+  };
+}
+
+function spiralXY(s: SpiralPosition) {
+  return { x: s.radius * Math.cos(s.theta), y: s.radius * Math.sin(s.theta) };
+}
+
+// Back to polar, keeping theta on the same turn of the spiral as `previousTheta`.
+function xyToSpiral(x: number, y: number, previous: SpiralPosition): SpiralPosition {
+  const angle = Math.atan2(y, x);
+  const turns = Math.round((previous.theta - angle) / (2 * Math.PI));
+  return { theta: round(angle + turns * 2 * Math.PI, 2), radius: round(Math.hypot(x, y), 1), order: previous.order };
+}
+
+/**
+ * Radial tidy tree over the nodes that have (or get) a tree position. Siblings are ordered by branch,
+ * then id; a single root sits at the origin, several roots share the first ring.
+ */
+export function layoutTree(tree: { id: string; parentId: string | null; branch: string }[]) {
+  const ids = new Set(tree.map((t) => t.id));
+  const children = new Map<string | null, typeof tree>();
+  for (const t of tree) {
+    const parent = t.parentId && ids.has(t.parentId) && t.parentId !== t.id ? t.parentId : null;
+    children.set(parent, [...(children.get(parent) ?? []), t]);
+  }
+  for (const list of children.values()) {
+    list.sort((a, b) => a.branch.localeCompare(b.branch) || a.id.localeCompare(b.id));
+  }
+
+  const leaves = new Map<string, number>();
+  const countLeaves = (id: string, seen: Set<string>): number => {
+    if (seen.has(id)) return 1;
+    seen.add(id);
+    const kids = children.get(id) ?? [];
+    const count = kids.length ? kids.reduce((sum, k) => sum + countLeaves(k.id, seen), 0) : 1;
+    leaves.set(id, count);
+    return count;
+  };
+  const roots = children.get(null) ?? [];
+  const totalLeaves = roots.reduce((sum, r) => sum + countLeaves(r.id, new Set()), 0);
+
+  const positions = new Map<string, TreePosition>();
+  const place = (node: (typeof tree)[number], parentId: string | null, level: number, from: number, to: number) => {
+    if (positions.has(node.id)) return;
+    const angle = (from + to) / 2;
+    const radius = roots.length === 1 ? level * TREE_LEVEL_RADIUS : (level + 1) * TREE_LEVEL_RADIUS;
+    positions.set(node.id, {
+      x: round(radius * Math.cos(angle), 1),
+      y: round(radius * Math.sin(angle), 1),
+      branch: node.branch,
+      level,
+      parent_id: parentId,
+    });
+    let start = from;
+    for (const child of children.get(node.id) ?? []) {
+      const span = ((to - from) * (leaves.get(child.id) ?? 1)) / (leaves.get(node.id) ?? 1);
+      place(child, node.id, level + 1, start, start + span);
+      start += span;
+    }
+  };
+  // Start at the top and go clockwise (canvas y points down).
+  let start = -Math.PI / 2;
+  for (const root of roots) {
+    const span = (2 * Math.PI * (leaves.get(root.id) ?? 1)) / Math.max(1, totalLeaves);
+    place(root, null, 0, start, start + span);
+    start += span;
+  }
+  return positions;
+}
+
+/**
+ * Pushes apart points closer than minDist. Unpinned points absorb the whole correction when they
+ * collide with a pinned one; two pinned (or two unpinned) points move half each.
+ * Identical points are separated along a deterministic angle.
+ */
+export function resolveCollisions(points: LayoutPoint[], minDist = LAYOUT_MIN_DIST) {
+  const next = points.map((p) => ({ ...p }));
+  for (let iteration = 0; iteration < COLLISION_ITERATIONS; iteration++) {
+    let moved = false;
+    for (let i = 0; i < next.length; i++) {
+      for (let j = i + 1; j < next.length; j++) {
+        const a = next[i];
+        const b = next[j];
+        let dx = b.x - a.x;
+        let dy = b.y - a.y;
+        let dist = Math.hypot(dx, dy);
+        if (dist >= minDist) continue;
+        if (dist < 1e-6) {
+          const angle = ((i * 7 + j * 13) % 360) * (Math.PI / 180);
+          dx = Math.cos(angle);
+          dy = Math.sin(angle);
+          dist = 1;
+        }
+        const push = minDist - dist;
+        const share = a.pinned === b.pinned ? [0.5, 0.5] : a.pinned ? [0, 1] : [1, 0];
+        a.x -= (dx / dist) * push * share[0];
+        a.y -= (dy / dist) * push * share[0];
+        b.x += (dx / dist) * push * share[1];
+        b.y += (dy / dist) * push * share[1];
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+  return next;
+}
+
+// Tree parent for a node placed without one: the level-1 node of its domain's branch, else the root.
+function defaultTreeParent(node: NodeDefinition, nodes: NodeDefinition[]) {
+  const tree = nodes.filter((n) => n.ui_position?.tree && n.id !== node.id);
+  const branch = tree.find((n) => n.ui_position.tree!.level === 1 && n.ui_position.tree!.branch === node.domain);
+  return branch?.id ?? tree.find((n) => n.ui_position.tree!.parent_id == null)?.id ?? null;
+}
+
+export function autoLayoutNodes(
+  nodes: NodeDefinition[],
+  opts: { mode?: AutoLayoutMode; spiral?: SpiralLayoutParams; minDist?: number } = {}
+): AutoLayoutResult {
+  const mode = opts.mode ?? "missing";
+  const params = opts.spiral ?? DEFAULT_SPIRAL_LAYOUT;
+  const hasPosition = (n: NodeDefinition) => Boolean(n.ui_position?.spiral || n.ui_position?.tree);
+  const placed = nodes.filter((n) => !hasPosition(n)).map((n) => n.id);
+  const placedSet = new Set(placed);
+
+  // Spiral: unplaced spiral/hybrid nodes continue after the last order; "all" re-places by order.
+  let lastOrder = Math.max(0, ...nodes.map((n) => n.ui_position?.spiral?.order ?? 0));
+  const spiral = new Map<string, SpiralPosition>();
+  for (const n of nodes) {
+    const current = n.ui_position?.spiral;
+    if (current) spiral.set(n.id, mode === "all" ? spiralPositionForOrder(current.order, params) : current);
+    else if (placedSet.has(n.id) && n.type !== "tree") spiral.set(n.id, spiralPositionForOrder(++lastOrder, params));
+  }
+
+  // Tree: the tidy layout includes unplaced tree nodes (attached to their domain branch);
+  // in "missing" mode only their positions are taken from it.
+  const treeInput = nodes
+    .filter((n) => n.ui_position?.tree || (placedSet.has(n.id) && n.type === "tree"))
+    .map((n) => ({
+      id: n.id,
+      parentId: n.ui_position?.tree ? n.ui_position.tree.parent_id : defaultTreeParent(n, nodes),
+      branch: n.ui_position?.tree?.branch ?? n.domain,
+    }));
+  const tidy = layoutTree(treeInput);
+  const tree = new Map<string, TreePosition>();
+  for (const n of nodes) {
+    const layout = tidy.get(n.id);
+    if (!layout) continue;
+    tree.set(n.id, mode === "all" || !n.ui_position?.tree ? layout : n.ui_position.tree);
+  }
+
+  // One point per node in canvas space (spiral wins for hybrids, as on the map).
+  const points = resolveCollisions(
+    nodes.flatMap((n) => {
+      const s = spiral.get(n.id);
+      const t = tree.get(n.id);
+      const xy = s ? spiralXY(s) : t;
+      return xy ? [{ id: n.id, x: xy.x, y: xy.y, pinned: mode === "missing" && !placedSet.has(n.id) }] : [];
+    }),
+    opts.minDist
+  );
+  const pointById = new Map(points.map((p) => [p.id, p]));
+
+  const moved: string[] = [];
+  const result = nodes.map((n) => {
+    const s = spiral.get(n.id);
+    const t = tree.get(n.id);
+    const before = s ? spiralXY(s) : t;
+    const point = pointById.get(n.id);
+    // Untouched points keep their exact values instead of a polar round trip.
+    const shifted = point && before && Math.hypot(point.x - before.x, point.y - before.y) > 0.05 ? point : null;
+    const ui_position = { ...n.ui_position };
+    if (s) ui_position.spiral = shifted ? xyToSpiral(shifted.x, shifted.y, s) : s;
+    if (t) ui_position.tree = !s && shifted ? { ...t, x: round(shifted.x, 1), y: round(shifted.y, 1) } : t;
+    if (JSON.stringify(ui_position) === JSON.stringify(n.ui_position)) return n;
+    moved.push(n.id);
+    return { ...n, ui_position };
+  });
+  return { nodes: result, placed, moved };
+}
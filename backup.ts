@@ -0,0 +1,265 @@
+// backup.ts
+// Whole-journey export/import: every JourneyDB table serialized into one JSON file
+// with a format version and a SHA-256 checksum over the table payload.
+
+import type { Table } from "dexie";
+import { db } from "./db";
+import { downloadBlob } from "./download";
+import { upgradeBackupTables } from "./migrations";
+import type { AppSettings, VaultConfig } from "./types";
+import { getVaultConfig, resetVaultCache, sealImportedRows, VAULT_SETTINGS_KEY } from "./vault";
+
+export const BACKUP_FORMAT = "idividream-journey";
+export const BACKUP_FORMAT_VERSION = 1;
+
+export type BackupTables = Record<string, Record<string, unknown>[]>;
+
+export interface JourneyBackup {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  exportedAt: string;   // ISO datetime
+  dbName: string;
+  dbVersion: number;
+  includesApiKey: boolean;
+  checksum: string;     // sha-256 hex of JSON.stringify(tables)
+  tables: BackupTables;
+}
+
+export type ImportMode = "merge" | "replace";
+
+export interface TableImportPreview {
+  table: string;
+  incoming: number;
+  existing: number;
+  conflicts: number;   // incoming rows whose primary key already exists
+}
+
+// Fields used to decide which side of a merge conflict is newer.
+const TIMESTAMP_FIELDS = ["updatedAt", "lastUpdated", "createdAt"];
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+async function sha256Hex(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function tableByName(name: string): Table<Record<string, unknown>, string> {
+  return db.table(name);
+}
+
+function primaryKeyOf(table: Table<Record<string, unknown>, string>, row: Record<string, unknown>) {
+  const keyPath = table.schema.primKey.keyPath;
+  return typeof keyPath === "string" ? String(row[keyPath]) : JSON.stringify(keyPath?.map((k) => row[k]));
+}
+
+function rowTimestamp(row: Record<string, unknown> | undefined) {
+  for (const field of TIMESTAMP_FIELDS) {
+    const value = row?.[field];
+    if (typeof value === "string") return value;
+  }
+  return "";
+}
+
+/**
+ * Serializes all tables. AppSettings.openAiApiKey is stripped unless includeApiKey is set.
+ * Vault-encrypted values are exported as stored, together with the "vault" settings row.
+ */
+export async function exportJourney(opts: { includeApiKey?: boolean } = {}): Promise<JourneyBackup> {
+  const includeApiKey = opts.includeApiKey ?? false;
+  const tables: BackupTables = {};
+  await db.transaction("r", db.tables, async () => {
+    for (const table of db.tables) {
+      tables[table.name] = (await table.toArray()) as Record<string, unknown>[];
+    }
+  });
+  if (!includeApiKey) {
+    tables.appSettings = (tables.appSettings ?? []).map((row) => {
+      const copy: Partial<AppSettings> = { ...row };
+      delete copy.openAiApiKey;
+      return copy as Record<string, unknown>;
+    });
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    exportedAt: nowIso(),
+    dbName: db.name,
+    dbVersion: db.verno,
+    includesApiKey: includeApiKey,
+    checksum: await sha256Hex(JSON.stringify(tables)),
+    tables,
+  };
+}
+
+export function backupFileName(backup: JourneyBackup) {
+  return `idividream-journey-${backup.exportedAt.slice(0, 10)}.json`;
+}
+
+/**
+ * Triggers a browser download of the backup file.
+ */
+export function downloadJourneyBackup(backup: JourneyBackup) {
+  downloadBlob(new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }), backupFileName(backup));
+}
+
+/**
+ * Parses and validates a backup file: format, version, known tables, row shape and checksum.
+ * Backups from an older database version get the same row rewrites as a schema upgrade.
+ */
+export async function parseJourneyBackup(text: string): Promise<JourneyBackup> {
+  let data: JourneyBackup;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Backup file is not valid JSON.");
+  }
+  if (data?.format !== BACKUP_FORMAT) throw new Error("Not an Idividream journey backup.");
+  if (typeof data.formatVersion !== "number" || data.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Unsupported backup format version: ${data.formatVersion}`);
+  }
+  if (!data.tables || typeof data.tables !== "object") throw new Error("Backup has no tables.");
+
+  const known = new Set(db.tables.map((t) => t.name));
+  for (const [name, rows] of Object.entries(data.tables)) {
+    if (!known.has(name)) throw new Error(`Backup contains unknown table '${name}'.`);
+    if (!Array.isArray(rows)) throw new Error(`Backup table '${name}' is not an array.`);
+    const keyPath = tableByName(name).schema.primKey.keyPath;
+    const bad = rows.find(
+      (row) => !row || typeof row !== "object" || (typeof keyPath === "string" && row[keyPath] == null)
+    );
+    if (bad !== undefined) throw new Error(`Backup table '${name}' has a row without a primary key.`);
+  }
+
+  const checksum = await sha256Hex(JSON.stringify(data.tables));
+  if (checksum !== data.checksum) throw new Error("Backup checksum mismatch: the file is corrupted or was edited.");
+  if (typeof data.dbVersion === "number" && data.dbVersion < db.verno) {
+    return { ...data, tables: upgradeBackupTables(data.tables, data.dbVersion) };
+  }
+  return data;
+}
+
+/**
+ * Per-table counts and primary-key conflicts against the current database.
+ */
+export async function previewJourneyImport(backup: JourneyBackup): Promise<TableImportPreview[]> {
+  const previews: TableImportPreview[] = [];
+  for (const table of db.tables) {
+    const incoming = backup.tables[table.name] ?? [];
+    const t = tableByName(table.name);
+    const existingKeys = new Set(
+      (await t.toArray()).map((row) => primaryKeyOf(t, row))
+    );
+    previews.push({
+      table: table.name,
+      incoming: incoming.length,
+      existing: existingKeys.size,
+      conflicts: incoming.filter((row) => existingKeys.has(primaryKeyOf(t, row))).length,
+    });
+  }
+  return previews;
+}
+
+function backupVaultConfig(backup: JourneyBackup): VaultConfig | null {
+  const row = (backup.tables.appSettings ?? []).find((s) => s.key === VAULT_SETTINGS_KEY);
+  return (row?.vault as VaultConfig | undefined) ?? null;
+}
+
+function sameVault(a: VaultConfig | null, b: VaultConfig | null) {
+  return a?.salt === b?.salt && a?.verifier === b?.verifier;
+}
+
+/**
+ * True when replacing with this backup would turn the local vault off (the backup has none).
+ */
+export async function importRemovesVault(backup: JourneyBackup) {
+  return Boolean(await getVaultConfig()) && !backupVaultConfig(backup);
+}
+
+/**
+ * Applies a backup inside a single transaction.
+ * - replace: every table is cleared and refilled from the backup. Replacing a vault-enabled journey
+ *   with a backup without a vault turns the vault off and needs opts.allowVaultRemoval.
+ * - merge: incoming rows are added; on key conflicts the newer row (by updatedAt/lastUpdated/createdAt)
+ *   wins. A locally stored API key is never overwritten by a backup that lacks one. With the vault
+ *   enabled, incoming plaintext is sealed with the current key first (the vault must be unlocked).
+ * Backups sealed with a different vault key than this device's are refused: either side's rows
+ * would become unreadable. Disable the vault on one side (which decrypts its data) and export again.
+ */
+export async function importJourney(
+  backup: JourneyBackup,
+  mode: ImportMode,
+  opts: { allowVaultRemoval?: boolean } = {}
+) {
+  if (mode === "replace" && !opts.allowVaultRemoval && (await importRemovesVault(backup))) {
+    throw new Error("This backup has no vault: replacing your journey with it turns the vault off.");
+  }
+
+  // WebCrypto would end the import transaction, so merged rows are sealed up front.
+  let tables = backup.tables;
+  if (mode === "merge" && (await getVaultConfig())) {
+    tables = {};
+    for (const [name, rows] of Object.entries(backup.tables)) {
+      try {
+        tables[name] = await sealImportedRows(name, rows);
+      } catch {
+        throw new Error("Unlock the vault before merging a backup that contains unencrypted data.");
+      }
+    }
+  }
+
+  await db.transaction("rw", db.tables, async () => {
+    const localVault = (await db.appSettings.get(VAULT_SETTINGS_KEY))?.vault ?? null;
+    const incomingVault = backupVaultConfig(backup);
+    if (localVault && incomingVault && !sameVault(localVault, incomingVault)) {
+      throw new Error(
+        "This backup was encrypted with a different vault passphrase. Disable the vault here or on the exporting device before importing."
+      );
+    }
+
+    for (const table of db.tables) {
+      const t = tableByName(table.name);
+      const incoming = tables[table.name] ?? [];
+
+      if (mode === "replace") {
+        const localSettings = table.name === "appSettings" ? await t.toArray() : [];
+        await t.clear();
+        // The local key is sealed under the local vault (if any); only carry it into the same vault.
+        const keepLocalKey = sameVault(localVault, incomingVault);
+        const rows = incoming.map((row) => {
+          if (table.name !== "appSettings" || row.openAiApiKey || !keepLocalKey) return row;
+          const local = localSettings.find((s) => s.key === row.key);
+          return local?.openAiApiKey ? { ...row, openAiApiKey: local.openAiApiKey } : row;
+        });
+        if (rows.length) await t.bulkPut(rows);
+        continue;
+      }
+
+      if (!incoming.length) continue;
+      const keyPath = t.schema.primKey.keyPath as string;
+      const existing = await t.bulkGet(incoming.map((row) => row[keyPath] as string));
+      const rows: Record<string, unknown>[] = [];
+      incoming.forEach((row, i) => {
+        const current = existing[i];
+        if (!current) {
+          rows.push(row);
+          return;
+        }
+        if (rowTimestamp(row) < rowTimestamp(current)) return;
+        rows.push(
+          table.name === "appSettings" && !row.openAiApiKey && current.openAiApiKey
+            ? { ...row, openAiApiKey: current.openAiApiKey }
+            : row
+        );
+      });
+      if (rows.length) await t.bulkPut(rows);
+    }
+  });
+  // The imported appSettings may carry a different vault row; re-read it and require unlocking.
+  resetVaultCache();
+}
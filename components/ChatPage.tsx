@@ -3,14 +3,29 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { db } from "../db";
-import { computeNodeStatuses } from "../journey";
+import { computeNodeStatuses, getGlobalSettings } from "../journey";
+import { getPackSettings } from "../content-packs";
+import { packIdOf } from "../node-namespace";
+import { buildJourneyContext } from "../journey-context";
 import { ensureUserNodeStateRows, seedNodeDefinitionsFromUrl } from "../seed";
+import { buildThreadHistory, getThreadSummary, saveThreadSummary } from "../summaries";
+import { openMessages, sealMessage } from "../vault";
+import NodeStateEditor from "./NodeStateEditor";
+import {
+  acceptSymbolMeaning,
+  dismissSymbolCandidate,
+  extractSymbolsForMessage,
+  getMessageSymbolCandidates,
+  getRelevantSymbolMeanings,
+} from "../symbols";
 import type {
   AppSettings,
   ComputedNodeStatus,
   Message,
   NodeDefinition,
+  SymbolMeaningCandidate,
   Thread,
+  ThreadSummary,
 } from "../types";
 
 const STATUS_LABELS: Record<ComputedNodeStatus["status"], string> = {
@@ -24,6 +39,12 @@ function nowIso() {
   return new Date().toISOString();
 }
 
+type StreamOutcome = "complete" | "aborted" | "error";
+
+function isPartialMessage(message: Message) {
+  return message.metadata?.partial === true;
+}
+
 function formatThreadTitle(nodeTitle: string) {
   const date = new Date();
   return `${nodeTitle} – ${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
@@ -31,23 +52,51 @@ function formatThreadTitle(nodeTitle: string) {
 
 interface ChatPageProps {
   nodeId: string | null;
+  threadId?: string | null;
+  messageId?: string | null; // scroll to + highlight (e.g. from a symbol occurrence)
 }
 
-export default function ChatPage({ nodeId }: ChatPageProps) {
+export default function ChatPage({ nodeId, threadId = null, messageId = null }: ChatPageProps) {
   const [node, setNode] = useState<NodeDefinition | null>(null);
   const [status, setStatus] = useState<ComputedNodeStatus | null>(null);
   const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [packSettings, setPackSettings] = useState<AppSettings | null>(null);
 
   const [threads, setThreads] = useState<Thread[]>([]);
-  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(threadId);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [threadSummary, setThreadSummary] = useState<ThreadSummary | null>(null);
+  const [isEditingSummary, setIsEditingSummary] = useState(false);
+  const [summaryDraft, setSummaryDraft] = useState("");
+  const [motifsDraft, setMotifsDraft] = useState("");
 
   const [composer, setComposer] = useState("");
   const [isSending, setIsSending] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [showNodeNotes, setShowNodeNotes] = useState(false);
 
   const bottomRef = useRef<HTMLDivElement | null>(null);
   const seededRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const focusedMessageRef = useRef(false);
+  // Lets an in-flight send see whether the user has switched threads meanwhile.
+  const selectedThreadRef = useRef(selectedThreadId);
+
+  // Client-side navigation to another thread of the same node reuses this component.
+  useEffect(() => {
+    setSelectedThreadId(threadId);
+  }, [threadId]);
+
+  useEffect(() => {
+    selectedThreadRef.current = selectedThreadId;
+  }, [selectedThreadId]);
+
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+    };
+  }, []);
 
   useEffect(() => {
     if (!nodeId) return;
@@ -60,16 +109,18 @@ export default function ChatPage({ nodeId }: ChatPageProps) {
         await ensureUserNodeStateRows();
       }
 
-      const [nodeRow, statusMap, settingsRow] = await Promise.all([
+      const [nodeRow, statusMap, settingsRow, packSettingsRow] = await Promise.all([
         db.nodeDefinitions.get(nodeId),
-        computeNodeStatuses(),
-        db.appSettings.get("global"),
+        computeNodeStatuses({ packId: packIdOf(nodeId) }),
+        getGlobalSettings(),
+        getPackSettings(packIdOf(nodeId)),
       ]);
 
       if (!active) return;
       setNode(nodeRow ?? null);
       setStatus(statusMap.get(nodeId) ?? null);
       setSettings(settingsRow ?? null);
+      setPackSettings(packSettingsRow ?? null);
     };
 
     load();
@@ -101,18 +152,21 @@ export default function ChatPage({ nodeId }: ChatPageProps) {
   }, [nodeId, selectedThreadId]);
 
   useEffect(() => {
+    setIsEditingSummary(false);
     if (!selectedThreadId) {
       setMessages([]);
+      setThreadSummary(null);
       return;
     }
     let active = true;
     const loadMessages = async () => {
-      const results = await db.messages
-        .where("threadId")
-        .equals(selectedThreadId)
-        .sortBy("createdAt");
+      const [results, summaryRow] = await Promise.all([
+        db.messages.where("threadId").equals(selectedThreadId).sortBy("createdAt").then(openMessages),
+        getThreadSummary(selectedThreadId),
+      ]);
       if (!active) return;
       setMessages(results);
+      setThreadSummary(summaryRow ?? null);
     };
     loadMessages();
     return () => {
@@ -121,8 +175,16 @@ export default function ChatPage({ nodeId }: ChatPageProps) {
   }, [selectedThreadId]);
 
   useEffect(() => {
+    if (messageId && !focusedMessageRef.current) {
+      const element = document.getElementById(`message-${messageId}`);
+      if (element) {
+        focusedMessageRef.current = true;
+        element.scrollIntoView({ block: "center" });
+        return;
+      }
+    }
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, streamingText, messageId]);
 
   const selectedThread = useMemo(
     () => threads.find((thread) => thread.id === selectedThreadId) ?? null,
@@ -156,6 +218,47 @@ export default function ChatPage({ nodeId }: ChatPageProps) {
     });
   };
 
+  const updateMessageCandidates = (messageId: string, candidates: SymbolMeaningCandidate[]) => {
+    setMessages((prev) =>
+      prev.map((item) =>
+        item.id === messageId
+          ? { ...item, metadata: { ...item.metadata, symbolCandidates: candidates } }
+          : item
+      )
+    );
+  };
+
+  const runSymbolExtraction = async (message: Message) => {
+    if (!node) return;
+    try {
+      const candidates = await extractSymbolsForMessage(message, {
+        nodeId: node.id,
+        symbolFocus: node.symbol_focus,
+        apiKey: settings?.openAiApiKey,
+        model: settings?.modelExtract,
+      });
+      if (candidates.length) updateMessageCandidates(message.id, candidates);
+    } catch {
+      // Extraction is best-effort; the chat itself must not fail because of it.
+    }
+  };
+
+  const handleAcceptCandidate = async (message: Message, symbolId: string, meaning: string) => {
+    await acceptSymbolMeaning(symbolId, meaning, message.id);
+    updateMessageCandidates(
+      message.id,
+      getMessageSymbolCandidates(message).filter((c) => c.symbolId !== symbolId)
+    );
+  };
+
+  const handleDismissCandidate = async (message: Message, symbolId: string) => {
+    await dismissSymbolCandidate(message.id, symbolId);
+    updateMessageCandidates(
+      message.id,
+      getMessageSymbolCandidates(message).filter((c) => c.symbolId !== symbolId)
+    );
+  };
+
   const handleSend = async () => {
     if (!node || !selectedThreadId || !composer.trim()) return;
     if (isSending) return;
@@ -164,11 +267,6 @@ export default function ChatPage({ nodeId }: ChatPageProps) {
     setComposer("");
     setErrorMessage(null);
 
-    const historySnapshot = messages.slice(-20).map((message) => ({
-      role: message.role,
-      content: message.content,
-    }));
-
     const userMessage: Message = {
       id: crypto.randomUUID(),
       threadId: selectedThreadId,
@@ -178,25 +276,52 @@ export default function ChatPage({ nodeId }: ChatPageProps) {
     };
 
     setMessages((prev) => [...prev, userMessage]);
-    await db.messages.put(userMessage);
+    await db.messages.put(await sealMessage(userMessage));
     await updateThreadTimestamp(selectedThreadId);
+    void runSymbolExtraction(userMessage);
 
+    // The controller exists before any await so Stop works while the context is being built.
+    const sendThreadId = selectedThreadId;
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsSending(true);
+    setStreamingText("");
+
+    let assistantText = "";
+    let outcome: StreamOutcome = "complete";
     try {
+      const { summary: summarySnapshot, history: historySnapshot } = await buildThreadHistory(
+        sendThreadId,
+        messages,
+        { nodeTitle: node.title, apiKey: settings?.openAiApiKey, model: settings?.modelSummarize }
+      );
+      if (selectedThreadRef.current === sendThreadId) setThreadSummary(summarySnapshot);
+
+      const [symbolMeanings, journeyContext] = await Promise.all([
+        getRelevantSymbolMeanings({ symbolFocus: node.symbol_focus, threadId: sendThreadId }),
+        buildJourneyContext(node.id),
+      ]);
+
       const response = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
+        signal: controller.signal,
         body: JSON.stringify({
           nodeId: node.id,
-          threadId: selectedThreadId,
+          threadId: sendThreadId,
           userMessage: messageText,
           nodeTitle: node.title,
           promptTemplate: node.prompt_template,
           status: status?.status ?? "locked",
           unmetDependencies: status?.unmetDependencies ?? [],
-          currentNodeId: settings?.currentNodeId ?? null,
-          currentSpiralOrder: settings?.currentSpiralOrder ?? null,
+          currentNodeId: packSettings?.currentNodeId ?? null,
+          currentSpiralOrder: packSettings?.currentSpiralOrder ?? null,
           history: historySnapshot,
+          threadSummary: summarySnapshot
+            ? { summary: summarySnapshot.summary, keyMotifs: summarySnapshot.keyMotifs }
+            : null,
+          symbolMeanings,
+          journeyContext,
           apiKey: settings?.openAiApiKey,
           model: settings?.modelChat,
         }),
@@ -207,28 +332,78 @@ export default function ChatPage({ nodeId }: ChatPageProps) {
         throw new Error(payload?.error ?? "Failed to reach the model");
       }
 
-      const data = await response.json();
-      const assistantText = String(data?.assistant ?? "").trim();
-      if (!assistantText) {
+      if (!response.body) {
+        throw new Error("No response stream returned.");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        assistantText += decoder.decode(value, { stream: true });
+        setStreamingText(assistantText);
+      }
+      assistantText += decoder.decode();
+
+      if (!assistantText.trim()) {
         throw new Error("No assistant response returned.");
       }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        outcome = "aborted";
+      } else {
+        outcome = "error";
+        const message = error instanceof Error ? error.message : "Failed to send message.";
+        setErrorMessage(message);
+      }
+    } finally {
+      abortRef.current = null;
+    }
 
+    // Only the final text is persisted; partial answers are kept but flagged.
+    const finalText = assistantText.trim();
+    if (finalText) {
       const assistantMessage: Message = {
         id: crypto.randomUUID(),
-        threadId: selectedThreadId,
+        threadId: sendThreadId,
         role: "assistant",
-        content: assistantText,
+        content: finalText,
         createdAt: nowIso(),
+        ...(outcome === "complete"
+          ? {}
+          : { metadata: { partial: true, stopReason: outcome } }),
       };
-      setMessages((prev) => [...prev, assistantMessage]);
-      await db.messages.put(assistantMessage);
-      await updateThreadTimestamp(selectedThreadId);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Failed to send message.";
-      setErrorMessage(message);
-    } finally {
-      setIsSending(false);
+      if (selectedThreadRef.current === sendThreadId) setMessages((prev) => [...prev, assistantMessage]);
+      await db.messages.put(await sealMessage(assistantMessage));
+      await updateThreadTimestamp(sendThreadId);
     }
+
+    setStreamingText(null);
+    setIsSending(false);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleEditSummary = () => {
+    setSummaryDraft(threadSummary?.summary ?? "");
+    setMotifsDraft((threadSummary?.keyMotifs ?? []).join(", "));
+    setIsEditingSummary(true);
+  };
+
+  const handleSaveSummary = async () => {
+    if (!selectedThreadId) return;
+    const saved = await saveThreadSummary(selectedThreadId, {
+      summary: summaryDraft.trim(),
+      keyMotifs: motifsDraft
+        .split(",")
+        .map((motif) => motif.trim())
+        .filter(Boolean),
+    });
+    setThreadSummary(saved);
+    setIsEditingSummary(false);
   };
 
   const handleComposerKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -268,6 +443,17 @@ export default function ChatPage({ nodeId }: ChatPageProps) {
           <span className="rounded-full border border-slate-700 px-3 py-1 text-xs text-slate-200">
             {STATUS_LABELS[status?.status ?? "locked"]}
           </span>
+          <button
+            onClick={() => setShowNodeNotes((prev) => !prev)}
+            disabled={!node}
+            className={`rounded-lg border px-3 py-1 text-xs transition disabled:opacity-60 ${
+              showNodeNotes
+                ? "border-sky-500/60 bg-sky-500/20 text-sky-100"
+                : "border-slate-700 bg-slate-800 text-slate-100 hover:bg-slate-700"
+            }`}
+          >
+            Notes & commitments
+          </button>
           <Link
             href="/journey"
             className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
@@ -321,6 +507,71 @@ export default function ChatPage({ nodeId }: ChatPageProps) {
               </ul>
             )}
           </div>
+          {selectedThread && (
+            <div className="mt-4 border-t border-slate-800 pt-4 text-xs">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-slate-200">Thread summary</h2>
+                {!isEditingSummary && (
+                  <button
+                    onClick={handleEditSummary}
+                    className="text-[10px] text-slate-400 hover:text-slate-200"
+                  >
+                    Edit
+                  </button>
+                )}
+              </div>
+              {isEditingSummary ? (
+                <div className="mt-2 flex flex-col gap-2">
+                  <textarea
+                    value={summaryDraft}
+                    onChange={(event) => setSummaryDraft(event.target.value)}
+                    rows={6}
+                    className="resize-none rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100"
+                  />
+                  <input
+                    value={motifsDraft}
+                    onChange={(event) => setMotifsDraft(event.target.value)}
+                    placeholder="Motifs, comma separated"
+                    className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100 placeholder:text-slate-500"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleSaveSummary}
+                      className="rounded-md border border-sky-500/60 bg-sky-500/20 px-2 py-1 text-sky-100 hover:bg-sky-500/30"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setIsEditingSummary(false)}
+                      className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 hover:bg-slate-800"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : threadSummary?.summary ? (
+                <div className="mt-2 flex max-h-48 flex-col gap-2 overflow-y-auto">
+                  <p className="whitespace-pre-wrap text-slate-300">{threadSummary.summary}</p>
+                  {threadSummary.keyMotifs.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {threadSummary.keyMotifs.map((motif) => (
+                        <span
+                          key={motif}
+                          className="rounded-full border border-slate-700 px-2 py-0.5 text-[10px] text-slate-300"
+                        >
+                          {motif}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="mt-2 text-slate-500">
+                  A summary is written automatically once this chat gets long.
+                </p>
+              )}
+            </div>
+          )}
         </aside>
 
         <div className="flex flex-1 flex-col">
@@ -334,18 +585,61 @@ export default function ChatPage({ nodeId }: ChatPageProps) {
                 {messages.map((message) => (
                   <div
                     key={message.id}
+                    id={`message-${message.id}`}
                     className={`max-w-2xl rounded-2xl px-4 py-3 text-sm leading-relaxed ${
                       message.role === "user"
                         ? "ml-auto bg-sky-500/20 text-sky-100"
                         : "bg-slate-900 text-slate-100"
-                    }`}
+                    } ${message.id === messageId ? "ring-2 ring-amber-400/70" : ""}`}
                   >
                     <p className="whitespace-pre-wrap">{message.content}</p>
+                    {isPartialMessage(message) && (
+                      <p className="mt-2 text-[10px] uppercase tracking-wide text-amber-300/80">
+                        {message.metadata?.stopReason === "aborted" ? "Stopped" : "Incomplete"}
+                      </p>
+                    )}
+                    {getMessageSymbolCandidates(message).length > 0 && (
+                      <div className="mt-3 flex flex-col gap-2 border-t border-sky-500/20 pt-2">
+                        <p className="text-[10px] uppercase tracking-wide text-sky-200/70">
+                          Symbols noticed — what do they mean to you?
+                        </p>
+                        {getMessageSymbolCandidates(message).map((candidate) => (
+                          <div key={candidate.symbolId} className="text-xs">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-medium">{candidate.label}</span>
+                              <button
+                                onClick={() => handleDismissCandidate(message, candidate.symbolId)}
+                                className="text-[10px] text-slate-400 hover:text-slate-200"
+                              >
+                                Dismiss
+                              </button>
+                            </div>
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {candidate.meanings.map((meaning) => (
+                                <button
+                                  key={meaning}
+                                  onClick={() =>
+                                    handleAcceptCandidate(message, candidate.symbolId, meaning)
+                                  }
+                                  className="rounded-full border border-sky-500/40 px-2 py-0.5 text-[11px] text-sky-100 hover:bg-sky-500/20"
+                                >
+                                  {meaning}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
                 {isSending && (
-                  <div className="max-w-2xl rounded-2xl bg-slate-900 px-4 py-3 text-sm text-slate-300">
-                    Thinking…
+                  <div className="max-w-2xl rounded-2xl bg-slate-900 px-4 py-3 text-sm leading-relaxed text-slate-100">
+                    {streamingText ? (
+                      <p className="whitespace-pre-wrap">{streamingText}</p>
+                    ) : (
+                      <span className="text-slate-300">Thinking…</span>
+                    )}
                   </div>
                 )}
                 <div ref={bottomRef} />
@@ -368,16 +662,32 @@ export default function ChatPage({ nodeId }: ChatPageProps) {
                 disabled={!selectedThread || isSending}
                 className="min-h-[70px] flex-1 resize-none rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:border-sky-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
               />
-              <button
-                onClick={handleSend}
-                disabled={!selectedThread || isSending || !composer.trim()}
-                className="rounded-lg border border-sky-500/60 bg-sky-500/20 px-4 py-2 text-sm font-semibold text-sky-100 transition hover:bg-sky-500/30 disabled:cursor-not-allowed disabled:opacity-60"
-              >
-                Send
-              </button>
+              {isSending ? (
+                <button
+                  onClick={handleStop}
+                  className="rounded-lg border border-rose-500/60 bg-rose-500/20 px-4 py-2 text-sm font-semibold text-rose-100 transition hover:bg-rose-500/30"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={!selectedThread || !composer.trim()}
+                  className="rounded-lg border border-sky-500/60 bg-sky-500/20 px-4 py-2 text-sm font-semibold text-sky-100 transition hover:bg-sky-500/30 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Send
+                </button>
+              )}
             </div>
           </div>
         </div>
+
+        {showNodeNotes && node && (
+          <aside className="w-80 overflow-y-auto border-l border-slate-800 bg-slate-950/80 p-4">
+            <h2 className="mb-3 text-sm font-semibold text-slate-200">Node notes</h2>
+            <NodeStateEditor nodeId={node.id} nodeTitle={node.title} />
+          </aside>
+        )}
       </section>
     </main>
   );
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { completeNodeWithAnswers } from "../journey";
+import { getUserNodeState } from "../node-state";
+import type { NodeDefinition } from "../types";
+
+interface CompletionDialogProps {
+  node: NodeDefinition;
+  onCancel: () => void;
+  onCompleted: () => void;
+}
+
+export default function CompletionDialog({ node, onCancel, onCompleted }: CompletionDialogProps) {
+  const prompts = node.personalization_prompts ?? [];
+  const checklist = node.completion_checklist ?? [];
+  // One step per prompt, plus a final checklist step when the node has one.
+  const stepCount = prompts.length + (checklist.length ? 1 : 0);
+
+  const [step, setStep] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [checked, setChecked] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    getUserNodeState(node.id).then((row) => {
+      if (!active || !row) return;
+      const previous: Record<string, string> = {};
+      for (const a of row.completionAnswers ?? []) previous[a.prompt] = a.answer;
+      setAnswers(previous);
+      setChecked(row.completionChecklist ?? []);
+    });
+    return () => {
+      active = false;
+    };
+  }, [node.id]);
+
+  const isChecklistStep = step >= prompts.length;
+  const currentPrompt = isChecklistStep ? null : prompts[step];
+  const canAdvance = isChecklistStep
+    ? checklist.every((item) => checked.includes(item))
+    : Boolean(answers[currentPrompt!]?.trim());
+  const isLastStep = step === stepCount - 1;
+
+  const handleNext = async () => {
+    if (!canAdvance) return;
+    if (!isLastStep) {
+      setStep((prev) => prev + 1);
+      return;
+    }
+    setIsSaving(true);
+    setErrorMessage(null);
+    try {
+      await completeNodeWithAnswers(node.id, answers, checked);
+      onCompleted();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to complete node.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleItem = (item: string) => {
+    setChecked((prev) => (prev.includes(item) ? prev.filter((i) => i !== item) : [...prev, item]));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 px-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="completion-dialog-title"
+        className="w-full max-w-lg rounded-2xl border border-slate-800 bg-slate-950 p-6 text-slate-100 shadow-2xl"
+      >
+        <p className="text-xs uppercase tracking-wide text-slate-400">
+          Complete node · step {step + 1} of {stepCount}
+        </p>
+        <h2 id="completion-dialog-title" className="mt-1 text-xl font-semibold">
+          {node.title}
+        </h2>
+
+        {errorMessage && (
+          <div className="mt-3 rounded-lg border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+            {errorMessage}
+          </div>
+        )}
+
+        {currentPrompt != null ? (
+          <label className="mt-4 flex flex-col gap-2 text-sm">
+            <span className="text-slate-200">{currentPrompt}</span>
+            <textarea
+              value={answers[currentPrompt] ?? ""}
+              onChange={(event) =>
+                setAnswers((prev) => ({ ...prev, [currentPrompt]: event.target.value }))
+              }
+              rows={5}
+              autoFocus
+              className="resize-y rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100"
+            />
+          </label>
+        ) : (
+          <div className="mt-4 flex flex-col gap-2 text-sm">
+            <p className="text-slate-300">Before marking this node complete, confirm:</p>
+            {checklist.map((item) => (
+              <label key={item} className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={checked.includes(item)}
+                  onChange={() => toggleItem(item)}
+                  className="mt-1"
+                />
+                <span>{item}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-6 flex items-center justify-between gap-3">
+          <button
+            onClick={onCancel}
+            className="rounded-lg border border-slate-700 px-4 py-2 text-sm text-slate-200 hover:bg-slate-800"
+          >
+            Cancel
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setStep((prev) => Math.max(0, prev - 1))}
+              disabled={step === 0}
+              className="rounded-lg border border-slate-700 px-4 py-2 text-sm text-slate-200 hover:bg-slate-800 disabled:opacity-50"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleNext}
+              disabled={!canAdvance || isSaving}
+              className="rounded-lg border border-emerald-500/60 bg-emerald-500/10 px-4 py-2 text-sm font-medium text-emerald-200 hover:bg-emerald-500/20 disabled:opacity-50"
+            >
+              {isLastStep ? "Mark completed" : "Next"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
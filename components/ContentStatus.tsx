@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { listInstalledPacks } from "../content-packs";
+import { localNodeId } from "../node-namespace";
+import { seedNodeDefinitionsFromUrl, upgradeInstalledPacks } from "../seed";
+import type { ContentMeta } from "../types";
+
+type SeedResult = Awaited<ReturnType<typeof seedNodeDefinitionsFromUrl>>;
+
+function describeResult(title: string, result: SeedResult) {
+  if (result.reason === "upgraded") {
+    return `${title} upgraded: ${result.added.length} added, ${result.updated.length} updated, ${result.removed.length} removed.`;
+  }
+  if (result.reason === "seeded") return `${title}: installed ${result.count} nodes.`;
+  return `${title} is up to date.`;
+}
+
+export default function ContentStatus() {
+  const [packs, setPacks] = useState<ContentMeta[]>([]);
+  const [packUrl, setPackUrl] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    listInstalledPacks().then((rows) => {
+      if (active) setPacks(rows);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const run = async (action: () => Promise<SeedResult[]>, failure: string) => {
+    setIsBusy(true);
+    setErrorMessage(null);
+    setNotice(null);
+    try {
+      const results = await action();
+      const installed = await listInstalledPacks();
+      const titleOf = (packId: string) => installed.find((p) => p.packId === packId)?.title ?? packId;
+      setNotice(results.map((r) => describeResult(titleOf(r.packId), r)).join(" "));
+      setPacks(installed);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCheck = () => run(upgradeInstalledPacks, "Content check failed.");
+
+  const handleInstall = async () => {
+    const url = packUrl.trim();
+    if (!url) return;
+    await run(async () => [await seedNodeDefinitionsFromUrl(url)], "Failed to install content pack.");
+    setPackUrl("");
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-4 text-sm">
+      <h2 className="font-semibold text-slate-100">Journey content</h2>
+      {errorMessage && (
+        <div className="mt-3 rounded-lg border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+          {errorMessage}
+        </div>
+      )}
+      {notice && (
+        <div className="mt-3 rounded-lg border border-emerald-500/50 bg-emerald-500/10 px-3 py-2 text-xs text-emerald-200">
+          {notice}
+        </div>
+      )}
+      {packs.length ? (
+        packs.map((meta) => (
+          <div key={meta.packId} className="mt-3">
+            <p className="text-slate-200">{meta.title}</p>
+            <p className="mt-1 text-xs text-slate-400">
+              {`${meta.sourceUrl} · schema v${meta.schemaVersion}${
+                meta.generatedAt ? ` · generated ${new Date(meta.generatedAt).toLocaleDateString()}` : ""
+              } · applied ${new Date(meta.appliedAt).toLocaleString()}`}
+            </p>
+            {meta.orphanedNodeIds.length ? (
+              <div className="mt-2 rounded-lg border border-amber-500/50 bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+                Notes or chats exist for nodes that are no longer part of this journey (kept, not deleted):{" "}
+                {meta.orphanedNodeIds.map(localNodeId).join(", ")}
+              </div>
+            ) : null}
+          </div>
+        ))
+      ) : (
+        <p className="mt-1 text-xs text-slate-400">No content installed yet.</p>
+      )}
+      <div className="mt-3 flex gap-2">
+        <input
+          value={packUrl}
+          onChange={(event) => setPackUrl(event.target.value)}
+          placeholder="Content pack URL (nodes.json with a pack header)"
+          className="flex-1 rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-xs text-slate-100"
+        />
+        <button
+          onClick={handleInstall}
+          disabled={isBusy || !packUrl.trim()}
+          className="rounded-lg border border-slate-700 px-4 py-2 text-xs text-slate-200 hover:bg-slate-800 disabled:opacity-60"
+        >
+          Install pack
+        </button>
+      </div>
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={handleCheck}
+          disabled={isBusy}
+          className="rounded-lg border border-slate-700 px-4 py-2 text-xs text-slate-200 hover:bg-slate-800 disabled:opacity-60"
+        >
+          Check for content updates
+        </button>
+        <Link
+          href="/authoring"
+          className="rounded-lg border border-slate-700 px-4 py-2 text-xs text-slate-200 hover:bg-slate-800"
+        >
+          Open node editor
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import {
+  downloadJourneyBackup,
+  exportJourney,
+  importJourney,
+  importRemovesVault,
+  parseJourneyBackup,
+  previewJourneyImport,
+  type ImportMode,
+  type JourneyBackup,
+  type TableImportPreview,
+} from "../backup";
+
+export default function DataBackup() {
+  const [includeApiKey, setIncludeApiKey] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<JourneyBackup | null>(null);
+  const [preview, setPreview] = useState<TableImportPreview[]>([]);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [isBusy, setIsBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setErrorMessage(null);
+    setNotice(null);
+    try {
+      const backup = await exportJourney({ includeApiKey });
+      downloadJourneyBackup(backup);
+      const rows = Object.values(backup.tables).reduce((acc, rows) => acc + rows.length, 0);
+      setNotice(`Exported ${rows} rows.`);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Export failed.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setErrorMessage(null);
+    setNotice(null);
+    setPendingBackup(null);
+    try {
+      const backup = await parseJourneyBackup(await file.text());
+      setPreview(await previewJourneyImport(backup));
+      setPendingBackup(backup);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Could not read backup.");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pendingBackup) return;
+    if (
+      mode === "replace" &&
+      !window.confirm("Replace ALL local journey data with this backup? This cannot be undone.")
+    ) {
+      return;
+    }
+    const removesVault = mode === "replace" && (await importRemovesVault(pendingBackup));
+    if (
+      removesVault &&
+      !window.confirm(
+        "This backup has no vault. Replacing your journey with it turns the vault off and stores everything unencrypted. Continue?"
+      )
+    ) {
+      return;
+    }
+    setIsBusy(true);
+    setErrorMessage(null);
+    try {
+      await importJourney(pendingBackup, mode, { allowVaultRemoval: removesVault });
+      setPendingBackup(null);
+      setPreview([]);
+      setNotice(mode === "replace" ? "Journey replaced from backup." : "Backup merged into your journey.");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Import failed; nothing was changed.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const totalConflicts = preview.reduce((acc, p) => acc + p.conflicts, 0);
+
+  return (
+    <div className="flex flex-col gap-6 text-sm">
+      {errorMessage && (
+        <div className="rounded-lg border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+          {errorMessage}
+        </div>
+      )}
+      {notice && (
+        <div className="rounded-lg border border-emerald-500/50 bg-emerald-500/10 px-3 py-2 text-xs text-emerald-200">
+          {notice}
+        </div>
+      )}
+
+      <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+        <h2 className="font-semibold text-slate-100">Export</h2>
+        <p className="mt-1 text-xs text-slate-400">
+          Downloads your entire journey (nodes, notes, chats, symbols, settings) as one JSON file.
+        </p>
+        <label className="mt-3 flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={includeApiKey}
+            onChange={(event) => setIncludeApiKey(event.target.checked)}
+          />
+          Include my OpenAI API key (not recommended)
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={isBusy}
+          className="mt-3 rounded-lg border border-sky-500/60 bg-sky-500/20 px-4 py-2 text-xs font-semibold text-sky-100 hover:bg-sky-500/30 disabled:opacity-60"
+        >
+          Download backup
+        </button>
+      </div>
+
+      <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+        <h2 className="font-semibold text-slate-100">Import</h2>
+        <p className="mt-1 text-xs text-slate-400">
+          The file is validated (format, version and checksum) before anything is written.
+        </p>
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFile}
+          className="mt-3 block text-xs text-slate-300"
+        />
+
+        {pendingBackup && (
+          <div className="mt-4 flex flex-col gap-3">
+            <p className="text-xs text-slate-400">
+              Exported {new Date(pendingBackup.exportedAt).toLocaleString()} · format v
+              {pendingBackup.formatVersion}
+              {pendingBackup.includesApiKey ? " · includes API key" : ""}
+            </p>
+            <table className="w-full text-left text-xs">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="py-1 font-medium">Table</th>
+                  <th className="py-1 font-medium">In file</th>
+                  <th className="py-1 font-medium">Local</th>
+                  <th className="py-1 font-medium">Conflicts</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-200">
+                {preview.map((p) => (
+                  <tr key={p.table} className="border-t border-slate-800">
+                    <td className="py-1">{p.table}</td>
+                    <td className="py-1">{p.incoming}</td>
+                    <td className="py-1">{p.existing}</td>
+                    <td className={`py-1 ${p.conflicts ? "text-amber-300" : ""}`}>{p.conflicts}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex flex-col gap-1 text-xs text-slate-300">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} />
+                Merge — keep local data; on {totalConflicts} conflict(s) the newer row wins
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} />
+                Replace — wipe local data and restore the backup exactly
+              </label>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleImport}
+                disabled={isBusy}
+                className="rounded-lg border border-emerald-500/60 bg-emerald-500/10 px-4 py-2 text-xs font-semibold text-emerald-200 hover:bg-emerald-500/20 disabled:opacity-60"
+              >
+                Import
+              </button>
+              <button
+                onClick={() => {
+                  setPendingBackup(null);
+                  setPreview([]);
+                }}
+                className="rounded-lg border border-slate-700 px-4 py-2 text-xs text-slate-200 hover:bg-slate-800"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
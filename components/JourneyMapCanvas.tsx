@@ -3,18 +3,66 @@
 import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import Konva from "konva";
-import { Circle, Group, Layer, Line, Stage, Text } from "react-konva";
+import { Arrow, Circle, Group, Layer, Line, Stage, Text } from "react-konva";
 import type { ComputedNodeStatus, NodeDefinition, NodeStatus } from "../types";
 import {
   computeNodeStatuses,
   getAllNodes,
+  getCompletedDependents,
   markNodeCompleted,
+  revisitNode,
+  nodeHasCompletionFlow,
   setCurrentNode,
 } from "../journey";
 import { ensureUserNodeStateRows, seedNodeDefinitionsFromUrl } from "../seed";
+import { subscribeActivePack } from "../content-packs";
+import { localNodeId } from "../node-namespace";
+import { describeUnmetClause, referencedNodeIds, shortestUnlockChain } from "../dependency-rules";
+import {
+  EMPTY_MAP_FILTERS,
+  focusNeighborhood,
+  hasActiveFilters,
+  nodeMatchesFilters,
+  type JourneyMapFilters,
+} from "../journey-map-filters";
+import { mapTraversalOrder, navigateMap, type MapNavigationKey } from "../journey-map-navigation";
+import { autoLayoutNodes } from "../auto-layout";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  downloadMapExport,
+  renderMapPng,
+  renderMapSvg,
+  type MapExportOptions,
+  type MapExportScene,
+} from "../journey-map-export";
+import CompletionDialog from "./CompletionDialog";
+import NodeStateEditor from "./NodeStateEditor";
 
 const POSITION_SCALE = 1.2;
 const NODE_RADIUS = 14;
+const FIT_PADDING = 80;
+const MAX_FIT_SCALE = 2.5;      // fitting a handful of nodes shouldn't zoom in too far
+const FIT_ANIMATION_MS = 350;
+const DIMMED_OPACITY = 0.15;
+const KEYBOARD_ZOOM_STEP = 1.25;
+const FOCUS_PAN_MARGIN = 60;    // keyboard focus re-centers the stage when the node gets this close to an edge
+
+const NAVIGATION_KEYS: Record<string, MapNavigationKey> = {
+  ArrowRight: "next",
+  ArrowLeft: "previous",
+  ArrowUp: "parent",
+  ArrowDown: "child",
+  Home: "first",
+  End: "last",
+};
+
+// Dependency arrows point from the prerequisite to the node that needs it.
+const DEPENDENCY_EDGE_STYLES = {
+  met: { stroke: "#16a34a", dash: undefined, opacity: 0.45 },
+  unmet: { stroke: "#64748b", dash: [6, 4], opacity: 0.7 },
+  soft: { stroke: "#475569", dash: [2, 5], opacity: 0.6 },
+  chain: { stroke: "#facc15", dash: undefined, opacity: 1 },
+};
 
 const STATUS_LABELS: Record<NodeStatus, string> = {
   completed: "Completed",
@@ -57,18 +105,96 @@ const STATUS_STYLES: Record<
   },
 };
 
+function statusLabel(status?: ComputedNodeStatus | null) {
+  const label = STATUS_LABELS[status?.status ?? "locked"];
+  const passes = status?.passes ?? 0;
+  if (status?.revisiting) return `Revisiting · pass ${passes + 1} (${label.toLowerCase()})`;
+  return passes > 1 ? `${label} · ${passes} passes` : label;
+}
+
+// Text for screen readers: title, status, lock reasons and recommendation.
+function describeNodeForScreenReader(
+  node: NodeDefinition,
+  status: ComputedNodeStatus | null | undefined,
+  label: (id: string) => string
+) {
+  const parts = [node.title, statusLabel(status)];
+  for (const clause of status?.status === "locked" ? status.unmetClauses ?? [] : []) {
+    parts.push(describeUnmetClause(clause, label));
+  }
+  if (status?.recommendedReason) parts.push(`Recommended: ${status.recommendedReason}`);
+  return parts.join(". ");
+}
+
 interface TooltipState {
   nodeId: string;
   x: number;
   y: number;
 }
 
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface StageView {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+function boundsOf(points: { x: number; y: number }[]): Bounds | null {
+  if (!points.length) return null;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const point of points) {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+interface FilterField {
+  key: Exclude<keyof JourneyMapFilters, "query">;
+  label: string;
+  plural: string;
+  options: string[];
+}
+
+// Distinct values of a node field, for the filter dropdowns.
+function optionsOf<T extends string>(nodes: NodeDefinition[], pick: (node: NodeDefinition) => T) {
+  return Array.from(new Set(nodes.map(pick))).sort();
+}
+
 interface NodePoint {
   node: NodeDefinition;
   x: number;
   y: number;
   status: NodeStatus;
   unmetDependencies?: string[];
+  passes: number;
+  revisiting: boolean;
+}
+
+// Unmet prerequisite clauses of a locked node, plus soft ("recommended first") dependencies.
+function DependencyNotes({ status, label }: { status?: ComputedNodeStatus | null; label: (id: string) => string }) {
+  const clauses = status?.status === "locked" ? status.unmetClauses ?? [] : [];
+  const soft = status?.status !== "completed" ? status?.unmetSoftDependencies ?? [] : [];
+  if (!clauses.length && !soft.length) return null;
+  return (
+    <div className="mt-1 text-slate-400">
+      {clauses.map((clause, i) => (
+        <div key={i}>{describeUnmetClause(clause, label)}</div>
+      ))}
+      {soft.length ? <div className="text-slate-500">Recommended first: {soft.map(label).join(", ")}</div> : null}
+    </div>
+  );
 }
 
 export default function JourneyMapCanvas() {
@@ -80,10 +206,49 @@ export default function JourneyMapCanvas() {
   const [statusMap, setStatusMap] = useState<Map<string, ComputedNodeStatus>>(new Map());
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [tooltip, setTooltip] = useState<TooltipState | null>(null);
+  const [completingNodeId, setCompletingNodeId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<JourneyMapFilters>(EMPTY_MAP_FILTERS);
+  const [focusMode, setFocusMode] = useState(false);
+  const [showDependencies, setShowDependencies] = useState(true);
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportOptions, setExportOptions] = useState<MapExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   const [stageScale, setStageScale] = useState(1);
   const [stagePosition, setStagePosition] = useState({ x: 0, y: 0 });
   const [stageSize, setStageSize] = useState({ width: 800, height: 600 });
+  const viewRef = useRef<StageView>({ scale: 1, x: 0, y: 0 });
+  const animationRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    viewRef.current = { scale: stageScale, x: stagePosition.x, y: stagePosition.y };
+  }, [stageScale, stagePosition]);
+
+  const cancelAnimation = useCallback(() => {
+    if (animationRef.current != null) cancelAnimationFrame(animationRef.current);
+    animationRef.current = null;
+  }, []);
+
+  useEffect(() => cancelAnimation, [cancelAnimation]);
+
+  // Eases the stage from its current view to the target (ease-out cubic).
+  const animateView = useCallback(
+    (target: StageView) => {
+      cancelAnimation();
+      const from = viewRef.current;
+      const start = performance.now();
+      const step = (now: number) => {
+        const t = Math.min(1, (now - start) / FIT_ANIMATION_MS);
+        const k = 1 - (1 - t) ** 3;
+        setStageScale(from.scale + (target.scale - from.scale) * k);
+        setStagePosition({ x: from.x + (target.x - from.x) * k, y: from.y + (target.y - from.y) * k });
+        animationRef.current = t < 1 ? requestAnimationFrame(step) : null;
+      };
+      animationRef.current = requestAnimationFrame(step);
+    },
+    [cancelAnimation]
+  );
 
   useLayoutEffect(() => {
     if (!containerRef.current) return;
@@ -121,13 +286,28 @@ export default function JourneyMapCanvas() {
       await refreshData();
     };
     load();
+    const unsubscribe = subscribeActivePack(() => {
+      setSelectedNodeId(null);
+      setTooltip(null);
+      refreshData();
+    });
     return () => {
       active = false;
+      unsubscribe();
     };
   }, [refreshData]);
 
+  const nodeLabel = useCallback(
+    (id: string) => nodes.find((n) => n.id === id)?.title ?? localNodeId(id),
+    [nodes]
+  );
+
+  // Nodes without ui_position get an automatic one (and overlapping ones are pushed apart)
+  // instead of silently disappearing from the map.
+  const laidOutNodes = useMemo(() => autoLayoutNodes(nodes).nodes, [nodes]);
+
   const nodePoints = useMemo<NodePoint[]>(() => {
-    return nodes
+    return laidOutNodes
       .map((node) => {
         const spiral = node.ui_position?.spiral;
         const tree = node.ui_position?.tree;
@@ -149,13 +329,15 @@ export default function JourneyMapCanvas() {
           y,
           status,
           unmetDependencies: statusEntry?.unmetDependencies,
+          passes: statusEntry?.passes ?? 0,
+          revisiting: statusEntry?.revisiting ?? false,
         };
       })
       .filter((point): point is NodePoint => point !== null);
-  }, [nodes, statusMap]);
+  }, [laidOutNodes, statusMap]);
 
   const spiralPoints = useMemo(() => {
-    return nodes
+    return laidOutNodes
       .filter((node) => node.ui_position?.spiral)
       .sort(
         (a, b) =>
@@ -168,11 +350,26 @@ export default function JourneyMapCanvas() {
         const y = Math.sin(spiral.theta) * spiral.radius * POSITION_SCALE;
         return [x, y];
       });
-  }, [nodes]);
+  }, [laidOutNodes]);
+
+  // Nodes kept bright by search/filters and focus mode; null when nothing is dimmed.
+  const highlightedIds = useMemo(() => {
+    const filtering = hasActiveFilters(filters);
+    const focus = focusMode && selectedNodeId ? focusNeighborhood(selectedNodeId, nodes) : null;
+    if (!filtering && !focus) return null;
+    return new Set(
+      nodes
+        .filter((node) => !focus || focus.has(node.id))
+        .filter((node) => !filtering || nodeMatchesFilters(node, statusMap.get(node.id)?.status ?? "locked", filters))
+        .map((node) => node.id)
+    );
+  }, [filters, focusMode, selectedNodeId, nodes, statusMap]);
+
+  const isDimmed = useCallback((nodeId: string) => Boolean(highlightedIds && !highlightedIds.has(nodeId)), [highlightedIds]);
 
   const treeEdges = useMemo(() => {
     const pointsById = new Map<string, { x: number; y: number }>();
-    for (const node of nodes) {
+    for (const node of laidOutNodes) {
       const tree = node.ui_position?.tree;
       if (tree) {
         pointsById.set(node.id, {
@@ -181,44 +378,98 @@ export default function JourneyMapCanvas() {
         });
       }
     }
-    return nodes
+    return laidOutNodes
       .map((node) => {
         const tree = node.ui_position?.tree;
         if (!tree?.parent_id) return null;
         const from = pointsById.get(tree.parent_id);
         const to = pointsById.get(node.id);
         if (!from || !to) return null;
-        return { from, to, id: `${tree.parent_id}-${node.id}` };
+        return { from, to, fromId: tree.parent_id, toId: node.id, id: `${tree.parent_id}-${node.id}` };
       })
-      .filter((edge): edge is { from: { x: number; y: number }; to: { x: number; y: number }; id: string } => edge !== null);
-  }, [nodes]);
-
-  const bounds = useMemo(() => {
-    if (!nodePoints.length) return null;
-    let minX = Infinity;
-    let minY = Infinity;
-    let maxX = -Infinity;
-    let maxY = -Infinity;
-    for (const point of nodePoints) {
-      minX = Math.min(minX, point.x);
-      minY = Math.min(minY, point.y);
-      maxX = Math.max(maxX, point.x);
-      maxY = Math.max(maxY, point.y);
+      .filter(
+        (edge): edge is {
+          from: { x: number; y: number };
+          to: { x: number; y: number };
+          fromId: string;
+          toId: string;
+          id: string;
+        } => edge !== null
+      );
+  }, [laidOutNodes]);
+
+  const dependencyEdges = useMemo(() => {
+    const pointsById = new Map(nodePoints.map((point) => [point.node.id, point]));
+    // Revisited nodes still satisfy their dependents.
+    const isDone = (id: string) => statusMap.get(id)?.status === "completed" || Boolean(statusMap.get(id)?.revisiting);
+    const edges: { id: string; fromId: string; toId: string; points: number[]; kind: "met" | "unmet" | "soft" }[] = [];
+    for (const to of nodePoints) {
+      const seen = new Set<string>();
+      for (const ref of referencedNodeIds(to.node)) {
+        const from = pointsById.get(ref.id);
+        if (!from || seen.has(ref.id)) continue;
+        seen.add(ref.id);
+        const dx = to.x - from.x;
+        const dy = to.y - from.y;
+        const length = Math.hypot(dx, dy);
+        if (length <= NODE_RADIUS * 2) continue;
+        const ux = dx / length;
+        const uy = dy / length;
+        edges.push({
+          id: `${ref.id}->${to.node.id}`,
+          fromId: ref.id,
+          toId: to.node.id,
+          points: [
+            from.x + ux * NODE_RADIUS,
+            from.y + uy * NODE_RADIUS,
+            to.x - ux * (NODE_RADIUS + 2),
+            to.y - uy * (NODE_RADIUS + 2),
+          ],
+          kind: ref.soft ? "soft" : isDone(ref.id) ? "met" : "unmet",
+        });
+      }
     }
-    return { minX, minY, maxX, maxY };
-  }, [nodePoints]);
-
-  const fitToScreen = useCallback(() => {
-    if (!bounds) return;
-    const padding = 80;
-    const width = bounds.maxX - bounds.minX + padding * 2;
-    const height = bounds.maxY - bounds.minY + padding * 2;
-    const scale = Math.min(stageSize.width / width, stageSize.height / height);
-    const x = stageSize.width / 2 - ((bounds.minX + bounds.maxX) / 2) * scale;
-    const y = stageSize.height / 2 - ((bounds.minY + bounds.maxY) / 2) * scale;
-    setStageScale(scale || 1);
-    setStagePosition({ x, y });
-  }, [bounds, stageSize]);
+    return edges;
+  }, [nodePoints, statusMap]);
+
+  // Hovering (or keyboard-focusing) a locked node highlights its shortest chain of unmet prerequisites.
+  const hoveredNodeId = tooltip?.nodeId ?? focusedNodeId;
+  const unlockChain = useMemo(
+    () => (hoveredNodeId ? shortestUnlockChain(hoveredNodeId, statusMap) : []),
+    [hoveredNodeId, statusMap]
+  );
+  const chainEdgeIds = useMemo(
+    () => new Set(unlockChain.slice(1).map((id, i) => `${id}->${unlockChain[i]}`)),
+    [unlockChain]
+  );
+
+  const bounds = useMemo(() => boundsOf(nodePoints), [nodePoints]);
+  const highlightedBounds = useMemo(
+    () => (highlightedIds ? boundsOf(nodePoints.filter((point) => highlightedIds.has(point.node.id))) : null),
+    [highlightedIds, nodePoints]
+  );
+
+  const fitToScreen = useCallback(
+    (target: Bounds | null = bounds, animate = false) => {
+      if (!target) return;
+      const width = target.maxX - target.minX + FIT_PADDING * 2;
+      const height = target.maxY - target.minY + FIT_PADDING * 2;
+      const scale = Math.min(stageSize.width / width, stageSize.height / height, MAX_FIT_SCALE) || 1;
+      const view = {
+        scale,
+        x: stageSize.width / 2 - ((target.minX + target.maxX) / 2) * scale,
+        y: stageSize.height / 2 - ((target.minY + target.maxY) / 2) * scale,
+      };
+      if (animate) {
+        animateView(view);
+        return;
+      }
+      cancelAnimation();
+      setStageScale(view.scale);
+      setStagePosition({ x: view.x, y: view.y });
+    },
+    [bounds, stageSize, animateView, cancelAnimation]
+  );
 
   useEffect(() => {
     if (bounds) {
@@ -226,8 +477,18 @@ export default function JourneyMapCanvas() {
     }
   }, [bounds, fitToScreen]);
 
+  // Animate to the highlighted set whenever search/filters/focus change it (back to everything when cleared).
+  const highlightKey = highlightedIds ? Array.from(highlightedIds).sort().join(",") : null;
+  const previousHighlightKey = useRef<string | null>(null);
+  useEffect(() => {
+    if (highlightKey === previousHighlightKey.current) return;
+    previousHighlightKey.current = highlightKey;
+    fitToScreen(highlightKey ? highlightedBounds : bounds, true);
+  }, [highlightKey, highlightedBounds, bounds, fitToScreen]);
+
   const handleWheel = useCallback((event: Konva.KonvaEventObject<WheelEvent>) => {
     event.evt.preventDefault();
+    cancelAnimation();
     const stage = stageRef.current;
     if (!stage) return;
     const oldScale = stageScale;
@@ -246,11 +507,167 @@ export default function JourneyMapCanvas() {
     };
     setStageScale(newScale);
     setStagePosition(newPos);
-  }, [stagePosition, stageScale]);
+  }, [stagePosition, stageScale, cancelAnimation]);
 
   const handleDragMove = useCallback((event: Konva.KonvaEventObject<DragEvent>) => {
+    cancelAnimation();
     setStagePosition({ x: event.target.x(), y: event.target.y() });
-  }, []);
+  }, [cancelAnimation]);
+
+  const traversalOrder = useMemo(() => mapTraversalOrder(nodePoints.map((point) => point.node)), [nodePoints]);
+
+  // Zooms around the stage center (keyboard shortcuts).
+  const zoomBy = useCallback(
+    (factor: number) => {
+      const { scale, x, y } = viewRef.current;
+      const center = { x: stageSize.width / 2, y: stageSize.height / 2 };
+      const next = scale * factor;
+      animateView({
+        scale: next,
+        x: center.x - ((center.x - x) / scale) * next,
+        y: center.y - ((center.y - y) / scale) * next,
+      });
+    },
+    [stageSize, animateView]
+  );
+
+  // Moves keyboard focus to a node and pans it into view when it is near or past an edge.
+  const focusNode = useCallback(
+    (nodeId: string) => {
+      setFocusedNodeId(nodeId);
+      const point = nodePoints.find((p) => p.node.id === nodeId);
+      if (!point) return;
+      const { scale, x, y } = viewRef.current;
+      const screenX = point.x * scale + x;
+      const screenY = point.y * scale + y;
+      const outside =
+        screenX < FOCUS_PAN_MARGIN ||
+        screenY < FOCUS_PAN_MARGIN ||
+        screenX > stageSize.width - FOCUS_PAN_MARGIN ||
+        screenY > stageSize.height - FOCUS_PAN_MARGIN;
+      if (outside) {
+        animateView({ scale, x: stageSize.width / 2 - point.x * scale, y: stageSize.height / 2 - point.y * scale });
+      }
+    },
+    [nodePoints, stageSize, animateView]
+  );
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLDivElement>) => {
+      const move = NAVIGATION_KEYS[event.key];
+      if (move) {
+        event.preventDefault();
+        const nodeList = nodePoints.map((point) => point.node);
+        // Up/Down fall back to previous/next where there is no tree parent/child.
+        const target =
+          navigateMap(focusedNodeId, move, nodeList, traversalOrder) ??
+          navigateMap(focusedNodeId, move === "parent" ? "previous" : "next", nodeList, traversalOrder);
+        if (target) focusNode(target);
+        return;
+      }
+      switch (event.key) {
+        case "Enter":
+        case " ":
+          if (!focusedNodeId) return;
+          event.preventDefault();
+          setSelectedNodeId(focusedNodeId);
+          break;
+        case "Escape":
+          setSelectedNodeId(null);
+          break;
+        case "+":
+        case "=":
+          event.preventDefault();
+          zoomBy(KEYBOARD_ZOOM_STEP);
+          break;
+        case "-":
+        case "_":
+          event.preventDefault();
+          zoomBy(1 / KEYBOARD_ZOOM_STEP);
+          break;
+        case "0":
+        case "f":
+          event.preventDefault();
+          fitToScreen(highlightedBounds ?? bounds, true);
+          break;
+      }
+    },
+    [nodePoints, focusedNodeId, traversalOrder, focusNode, zoomBy, fitToScreen, highlightedBounds, bounds]
+  );
+
+  // What the map currently shows (statuses, edges, dimming) in map coordinates, for SVG/PNG export.
+  const exportScene = useCallback((): MapExportScene => {
+    const edges: MapExportScene["edges"] = [];
+    if (spiralPoints.length > 2) {
+      edges.push({ points: spiralPoints, stroke: "#1f2937", strokeWidth: 4, opacity: highlightedIds ? 0.4 : 1, arrow: false });
+    }
+    for (const edge of treeEdges) {
+      edges.push({
+        points: [edge.from.x, edge.from.y, edge.to.x, edge.to.y],
+        stroke: "#334155",
+        strokeWidth: 2,
+        opacity: isDimmed(edge.fromId) || isDimmed(edge.toId) ? DIMMED_OPACITY : 0.8,
+        arrow: false,
+      });
+    }
+    for (const edge of showDependencies ? dependencyEdges : []) {
+      const edgeStyle = DEPENDENCY_EDGE_STYLES[edge.kind];
+      edges.push({
+        points: edge.points,
+        stroke: edgeStyle.stroke,
+        strokeWidth: 1.5,
+        dash: edgeStyle.dash,
+        opacity: isDimmed(edge.fromId) || isDimmed(edge.toId) ? DIMMED_OPACITY : edgeStyle.opacity,
+        arrow: true,
+      });
+    }
+    const completed = nodePoints.filter((point) => point.status === "completed" && !point.revisiting).length;
+    return {
+      title: "Journey map",
+      summary: `${completed} of ${nodePoints.length} nodes completed`,
+      edges,
+      nodes: nodePoints.map((point) => {
+        const style = STATUS_STYLES[point.status];
+        return {
+          id: point.node.id,
+          x: point.x,
+          y: point.y,
+          title: point.node.title,
+          fill: style.fill,
+          stroke: point.revisiting ? STATUS_STYLES.completed.stroke : style.stroke,
+          strokeWidth: point.revisiting ? 3 : style.strokeWidth,
+          dash: point.revisiting ? [4, 3] : undefined,
+          text: style.text,
+          opacity: style.opacity * (isDimmed(point.node.id) ? DIMMED_OPACITY : 1),
+          passes: point.passes,
+          // Started shadow work that hasn't been through a full pass yet.
+          shadowInProgress:
+            point.node.phase === "shadow" && point.status !== "locked" && (point.status !== "completed" || point.revisiting),
+        };
+      }),
+      legend: [
+        ...(Object.keys(STATUS_LABELS) as NodeStatus[]).map((status) => ({
+          label: STATUS_LABELS[status],
+          fill: STATUS_STYLES[status].fill,
+          stroke: STATUS_STYLES[status].stroke,
+        })),
+        { label: "Revisiting", fill: STATUS_STYLES.available.fill, stroke: STATUS_STYLES.completed.stroke, dash: [3, 2] },
+      ],
+    };
+  }, [spiralPoints, treeEdges, dependencyEdges, nodePoints, showDependencies, highlightedIds, isDimmed]);
+
+  const handleExport = (format: "png" | "svg") => {
+    try {
+      const scene = exportScene();
+      if (!scene.nodes.length) throw new Error("Nothing to export yet.");
+      const date = new Date();
+      const content = format === "png" ? renderMapPng(scene, exportOptions, date) : renderMapSvg(scene, exportOptions, date);
+      downloadMapExport(content, format, date);
+      setExportError(null);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : "Failed to export the map.");
+    }
+  };
 
   const handleNodeHover = useCallback(
     (nodeId: string | null, event?: Konva.KonvaEventObject<MouseEvent>) => {
@@ -278,10 +695,57 @@ export default function JourneyMapCanvas() {
   const hoveredNode = tooltip ? nodes.find((node) => node.id === tooltip.nodeId) : null;
   const hoveredStatus = tooltip ? statusMap.get(tooltip.nodeId) : null;
 
-  const handleToggleCompleted = async () => {
+  const completingNode = completingNodeId
+    ? nodes.find((node) => node.id === completingNodeId)
+    : null;
+
+  const selectedPasses = selectedStatus?.passes ?? 0;
+  const focusedNode = focusedNodeId ? nodes.find((node) => node.id === focusedNodeId) : null;
+
+  const filterFields: FilterField[] = [
+    { key: "phase", label: "Phase", plural: "phases", options: optionsOf(nodes, (node) => node.phase) },
+    { key: "domain", label: "Domain", plural: "domains", options: optionsOf(nodes, (node) => node.domain) },
+    { key: "type", label: "Type", plural: "types", options: optionsOf(nodes, (node) => node.type) },
+    { key: "status", label: "Status", plural: "statuses", options: Object.keys(STATUS_LABELS) },
+  ];
+
+  const handleComplete = async () => {
+    if (!selectedNode) return;
+    if (nodeHasCompletionFlow(selectedNode)) {
+      setCompletingNodeId(selectedNode.id);
+      return;
+    }
+    await markNodeCompleted(selectedNode.id, true);
+    await refreshData();
+  };
+
+  // Undoing the only pass makes the node incomplete again, which affects its dependents.
+  const handleUndoPass = async () => {
     if (!selectedNode) return;
-    const isCompleted = selectedStatus?.status === "completed";
-    await markNodeCompleted(selectedNode.id, !isCompleted);
+    const dependents = selectedPasses === 1 ? await getCompletedDependents(selectedNode.id) : [];
+    if (dependents.length) {
+      const ok = window.confirm(
+        [
+          `These completed nodes build on "${selectedNode.title}":`,
+          ...dependents.map((n) => `• ${n.title}`),
+          "",
+          "They stay completed, but their prerequisite will no longer be met. Mark incomplete anyway?",
+        ].join("\n")
+      );
+      if (!ok) return;
+    }
+    await markNodeCompleted(selectedNode.id, false);
+    await refreshData();
+  };
+
+  const handleRevisit = async (reopen: boolean) => {
+    if (!selectedNode) return;
+    await revisitNode(selectedNode.id, reopen);
+    await refreshData();
+  };
+
+  const handleCompletionDone = async () => {
+    setCompletingNodeId(null);
     await refreshData();
   };
 
@@ -293,17 +757,140 @@ export default function JourneyMapCanvas() {
 
   return (
     <div className="relative h-full w-full">
-      <div className="absolute left-4 top-4 z-10 flex items-center gap-3 rounded-full border border-slate-800 bg-slate-900/80 px-4 py-2 text-xs text-slate-200 shadow-lg">
-        <span>Pan: drag · Zoom: scroll</span>
-        <button
-          onClick={fitToScreen}
-          className="rounded-full border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
-        >
-          Fit to screen
-        </button>
+      <div className="absolute left-4 top-4 z-10 flex max-w-[calc(100%-2rem)] flex-col items-start gap-2">
+        <div className="flex items-center gap-3 rounded-full border border-slate-800 bg-slate-900/80 px-4 py-2 text-xs text-slate-200 shadow-lg">
+          <span>Pan: drag · Zoom: scroll</span>
+          <button
+            onClick={() => fitToScreen(highlightedBounds ?? bounds, true)}
+            className="rounded-full border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+          >
+            Fit to screen
+          </button>
+          <button
+            onClick={() => setShowDependencies((prev) => !prev)}
+            className="rounded-full border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+          >
+            Dependencies {showDependencies ? "on" : "off"}
+          </button>
+          <button
+            onClick={() => setExportOpen((prev) => !prev)}
+            aria-expanded={exportOpen}
+            className="rounded-full border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+          >
+            Export
+          </button>
+        </div>
+        {exportOpen && (
+          <div className="flex flex-col gap-2 rounded-2xl border border-slate-800 bg-slate-900/80 px-3 py-2 text-xs text-slate-200 shadow-lg">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={exportOptions.legend}
+                onChange={(event) => setExportOptions((prev) => ({ ...prev, legend: event.target.checked }))}
+              />
+              Legend
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={exportOptions.dateStamp}
+                onChange={(event) => setExportOptions((prev) => ({ ...prev, dateStamp: event.target.checked }))}
+              />
+              Date stamp
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={exportOptions.anonymizeShadow}
+                onChange={(event) => setExportOptions((prev) => ({ ...prev, anonymizeShadow: event.target.checked }))}
+              />
+              Hide titles of in-progress shadow nodes
+            </label>
+            <p className="text-slate-500">Exports the whole map with the current filters and dependency arrows.</p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleExport("png")}
+                className="rounded-lg border border-sky-500/60 bg-sky-500/20 px-3 py-1 font-semibold text-sky-100 hover:bg-sky-500/30"
+              >
+                Download PNG
+              </button>
+              <button
+                onClick={() => handleExport("svg")}
+                className="rounded-lg border border-sky-500/60 bg-sky-500/20 px-3 py-1 font-semibold text-sky-100 hover:bg-sky-500/30"
+              >
+                Download SVG
+              </button>
+            </div>
+            {exportError && (
+              <div className="rounded-lg border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-rose-200">{exportError}</div>
+            )}
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2 rounded-2xl border border-slate-800 bg-slate-900/80 px-3 py-2 text-xs text-slate-200 shadow-lg">
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(event) => setFilters((prev) => ({ ...prev, query: event.target.value }))}
+            placeholder="Search titles, tags, descriptions…"
+            aria-label="Search nodes"
+            className="w-56 rounded-lg border border-slate-700 bg-slate-800 px-2 py-1 text-xs text-slate-100 placeholder:text-slate-500"
+          />
+          {filterFields.map((field) => (
+            <select
+              key={field.key}
+              value={filters[field.key] ?? ""}
+              onChange={(event) => setFilters((prev) => ({ ...prev, [field.key]: event.target.value || null }))}
+              aria-label={`Filter by ${field.label.toLowerCase()}`}
+              className="rounded-lg border border-slate-700 bg-slate-800 px-2 py-1 text-xs text-slate-100"
+            >
+              <option value="">{`All ${field.plural}`}</option>
+              {field.options.map((option) => (
+                <option key={option} value={option}>
+                  {field.key === "status" ? STATUS_LABELS[option as NodeStatus] : option.replace(/_/g, " ")}
+                </option>
+              ))}
+            </select>
+          ))}
+          <button
+            onClick={() => setFocusMode((prev) => !prev)}
+            disabled={!selectedNodeId && !focusMode}
+            title="Dim everything except the selected node's dependency ancestors and dependents"
+            className={`rounded-lg border px-2 py-1 text-xs disabled:opacity-50 ${
+              focusMode
+                ? "border-yellow-400/60 bg-yellow-400/10 text-yellow-200"
+                : "border-slate-700 bg-slate-800 text-slate-100 hover:bg-slate-700"
+            }`}
+          >
+            Focus {focusMode ? "on" : "off"}
+          </button>
+          {highlightedIds && (
+            <>
+              <span className="text-slate-400">
+                {highlightedIds.size} of {nodes.length} nodes
+              </span>
+              <button
+                onClick={() => {
+                  setFilters(EMPTY_MAP_FILTERS);
+                  setFocusMode(false);
+                }}
+                className="text-sky-300 hover:text-sky-200"
+              >
+                Clear
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
-      <div ref={containerRef} className="h-full w-full">
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        role="application"
+        aria-label="Journey map"
+        aria-describedby="journey-map-help"
+        onKeyDown={handleKeyDown}
+        className="h-full w-full outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-sky-400"
+      >
         <Stage
           width={stageSize.width}
           height={stageSize.height}
@@ -324,6 +911,7 @@ export default function JourneyMapCanvas() {
                 strokeWidth={4}
                 lineJoin="round"
                 lineCap="round"
+                opacity={highlightedIds ? 0.4 : 1}
               />
             )}
             {treeEdges.map((edge) => (
@@ -332,11 +920,34 @@ export default function JourneyMapCanvas() {
                 points={[edge.from.x, edge.from.y, edge.to.x, edge.to.y]}
                 stroke="#334155"
                 strokeWidth={2}
-                opacity={0.8}
+                opacity={isDimmed(edge.fromId) || isDimmed(edge.toId) ? DIMMED_OPACITY : 0.8}
               />
             ))}
+            {dependencyEdges
+              .filter((edge) => showDependencies || chainEdgeIds.has(edge.id))
+              .map((edge) => {
+                const inChain = chainEdgeIds.has(edge.id);
+                const edgeStyle = DEPENDENCY_EDGE_STYLES[inChain ? "chain" : edge.kind];
+                const dimmed = !inChain && (isDimmed(edge.fromId) || isDimmed(edge.toId));
+                return (
+                  <Arrow
+                    key={edge.id}
+                    points={edge.points}
+                    stroke={edgeStyle.stroke}
+                    fill={edgeStyle.stroke}
+                    strokeWidth={inChain ? 3 : 1.5}
+                    pointerLength={inChain ? 9 : 6}
+                    pointerWidth={inChain ? 8 : 5}
+                    dash={edgeStyle.dash}
+                    opacity={dimmed ? DIMMED_OPACITY : edgeStyle.opacity}
+                    listening={false}
+                  />
+                );
+              })}
             {nodePoints.map((point) => {
               const style = STATUS_STYLES[point.status];
+              const dimmed = isDimmed(point.node.id);
+              const inChain = unlockChain.includes(point.node.id);
               return (
                 <Group
                   key={point.node.id}
@@ -346,14 +957,38 @@ export default function JourneyMapCanvas() {
                   onMouseMove={(event) => handleNodeHover(point.node.id, event)}
                   onMouseLeave={() => handleNodeHover(null)}
                   onClick={() => setSelectedNodeId(point.node.id)}
+                  opacity={dimmed && !inChain ? DIMMED_OPACITY : 1}
                 >
+                  {inChain && (
+                    <Circle radius={NODE_RADIUS + 5} stroke={DEPENDENCY_EDGE_STYLES.chain.stroke} strokeWidth={2} />
+                  )}
+                  {focusedNodeId === point.node.id && (
+                    <Circle radius={NODE_RADIUS + 9} stroke="#f8fafc" strokeWidth={2} dash={[4, 3]} listening={false} />
+                  )}
                   <Circle
                     radius={NODE_RADIUS}
                     fill={style.fill}
-                    stroke={style.stroke}
-                    strokeWidth={style.strokeWidth}
+                    stroke={point.revisiting ? STATUS_STYLES.completed.stroke : style.stroke}
+                    strokeWidth={point.revisiting ? 3 : style.strokeWidth}
+                    dash={point.revisiting ? [4, 3] : undefined}
                     opacity={style.opacity}
                   />
+                  {point.passes > 1 || point.revisiting ? (
+                    <Group x={NODE_RADIUS * 0.8} y={-NODE_RADIUS * 0.8}>
+                      <Circle radius={7} fill="#0f172a" stroke={STATUS_STYLES.completed.stroke} strokeWidth={1} />
+                      <Text
+                        text={String(point.passes)}
+                        fontSize={9}
+                        fill="#f8fafc"
+                        width={14}
+                        height={14}
+                        offsetX={7}
+                        offsetY={7}
+                        align="center"
+                        verticalAlign="middle"
+                      />
+                    </Group>
+                  ) : null}
                   <Text
                     text={point.node.title}
                     offsetY={-NODE_RADIUS - 8}
@@ -363,6 +998,7 @@ export default function JourneyMapCanvas() {
                     align="center"
                     offsetX={80}
                     opacity={style.opacity}
+                    visible={!dimmed}
                   />
                 </Group>
               );
@@ -371,16 +1007,64 @@ export default function JourneyMapCanvas() {
         </Stage>
       </div>
 
+      {/* Screen-reader mirror of the canvas: one button per node, in keyboard traversal order. */}
+      <p id="journey-map-help" className="sr-only">
+        Arrow keys move between nodes in spiral order, then through the tree; up and down follow tree branches.
+        Enter opens the node, Escape closes it, plus and minus zoom, 0 fits the map.
+      </p>
+      <ul className="sr-only" aria-label="Journey nodes">
+        {traversalOrder.map((id) => {
+          const node = nodes.find((n) => n.id === id);
+          if (!node) return null;
+          return (
+            <li key={id}>
+              <button
+                onFocus={() => focusNode(id)}
+                onClick={() => setSelectedNodeId(id)}
+                aria-current={selectedNodeId === id ? "true" : undefined}
+              >
+                {describeNodeForScreenReader(node, statusMap.get(id), nodeLabel)}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        {focusedNode ? describeNodeForScreenReader(focusedNode, statusMap.get(focusedNode.id), nodeLabel) : ""}
+      </div>
+
       {tooltip && hoveredNode && (
         <div
           className="pointer-events-none absolute z-20 max-w-xs rounded-lg border border-slate-700 bg-slate-900/95 px-3 py-2 text-xs text-slate-100 shadow-xl"
           style={{ left: tooltip.x + 12, top: tooltip.y + 12 }}
         >
           <div className="font-semibold">{hoveredNode.title}</div>
-          <div className="text-slate-300">{STATUS_LABELS[hoveredStatus?.status ?? "locked"]}</div>
-          {hoveredStatus?.status === "locked" && hoveredStatus.unmetDependencies?.length ? (
+          <div className="text-slate-300">{statusLabel(hoveredStatus)}</div>
+          <DependencyNotes status={hoveredStatus} label={nodeLabel} />
+          {unlockChain.length > 1 && (
+            <div className="mt-1 text-yellow-300">
+              Unlock path: {unlockChain.slice().reverse().map(nodeLabel).join(" → ")}
+            </div>
+          )}
+          {hoveredStatus?.recommendation ? (
             <div className="mt-1 text-slate-400">
-              Requires: {hoveredStatus.unmetDependencies.join(", ")}
+              <div className="text-yellow-300">
+                {hoveredStatus.recommendation.rank === 1
+                  ? "Recommended next"
+                  : `Recommendation #${hoveredStatus.recommendation.rank}`}{" "}
+                · score {hoveredStatus.recommendation.score.toFixed(1)}
+              </div>
+              {hoveredStatus.recommendation.signals.length ? (
+                <ul className="mt-1 list-disc pl-4">
+                  {hoveredStatus.recommendation.signals.map((signal) => (
+                    <li key={signal.signal}>
+                      {signal.reason} <span className="text-slate-500">(+{signal.contribution.toFixed(1)})</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div>No strong signal yet; first available node.</div>
+              )}
             </div>
           ) : null}
         </div>
@@ -393,7 +1077,7 @@ export default function JourneyMapCanvas() {
             onClick={() => setSelectedNodeId(null)}
             aria-label="Close details"
           />
-          <aside className="fixed right-0 top-0 z-30 flex h-full w-full max-w-md flex-col gap-6 border-l border-slate-800 bg-slate-950/95 p-6 text-slate-100 shadow-2xl md:rounded-l-2xl">
+          <aside className="fixed right-0 top-0 z-30 flex h-full w-full max-w-md flex-col gap-6 overflow-y-auto border-l border-slate-800 bg-slate-950/95 p-6 text-slate-100 shadow-2xl md:rounded-l-2xl">
             <div className="flex items-start justify-between gap-4">
               <div>
                 <p className="text-xs uppercase tracking-wide text-slate-400">Node</p>
@@ -411,14 +1095,12 @@ export default function JourneyMapCanvas() {
               <div className="flex items-center justify-between">
                 <span className="font-medium">Status</span>
                 <span className="text-slate-300">
-                  {STATUS_LABELS[selectedStatus?.status ?? "locked"]}
+                  {statusLabel(selectedStatus)}
                 </span>
               </div>
-              {selectedStatus?.status === "locked" && selectedStatus.unmetDependencies?.length ? (
-                <div className="mt-2 text-xs text-slate-400">
-                  Requires: {selectedStatus.unmetDependencies.join(", ")}
-                </div>
-              ) : null}
+              <div className="mt-1 text-xs">
+                <DependencyNotes status={selectedStatus} label={nodeLabel} />
+              </div>
             </div>
             <div className="flex flex-col gap-3">
               <Link
@@ -427,12 +1109,44 @@ export default function JourneyMapCanvas() {
               >
                 Open node chat
               </Link>
-              <button
-                onClick={handleToggleCompleted}
-                className="rounded-lg border border-emerald-500/60 bg-emerald-500/10 px-4 py-2 text-sm font-medium text-emerald-200 hover:bg-emerald-500/20"
-              >
-                {selectedStatus?.status === "completed" ? "Mark incomplete" : "Mark completed"}
-              </button>
+              {selectedStatus?.status === "completed" ? (
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => handleRevisit(true)}
+                    className="flex-1 rounded-lg border border-emerald-500/60 bg-emerald-500/10 px-4 py-2 text-sm font-medium text-emerald-200 hover:bg-emerald-500/20"
+                  >
+                    Revisit (pass {selectedPasses + 1})
+                  </button>
+                  <button
+                    onClick={handleUndoPass}
+                    className="rounded-lg border border-slate-700 bg-slate-800 px-4 py-2 text-sm font-medium text-slate-200 hover:bg-slate-700"
+                  >
+                    {selectedPasses > 1 ? `Undo pass ${selectedPasses}` : "Mark incomplete"}
+                  </button>
+                </div>
+              ) : selectedStatus?.revisiting ? (
+                <div className="flex gap-3">
+                  <button
+                    onClick={handleComplete}
+                    className="flex-1 rounded-lg border border-emerald-500/60 bg-emerald-500/10 px-4 py-2 text-sm font-medium text-emerald-200 hover:bg-emerald-500/20"
+                  >
+                    Complete pass {selectedPasses + 1}
+                  </button>
+                  <button
+                    onClick={() => handleRevisit(false)}
+                    className="rounded-lg border border-slate-700 bg-slate-800 px-4 py-2 text-sm font-medium text-slate-200 hover:bg-slate-700"
+                  >
+                    Cancel revisit
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={handleComplete}
+                  className="rounded-lg border border-emerald-500/60 bg-emerald-500/10 px-4 py-2 text-sm font-medium text-emerald-200 hover:bg-emerald-500/20"
+                >
+                  Mark completed
+                </button>
+              )}
               <button
                 onClick={handleSetCurrent}
                 className="rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium text-sky-200 hover:bg-sky-500/20"
@@ -440,9 +1154,24 @@ export default function JourneyMapCanvas() {
                 Set as current
               </button>
             </div>
+            <div className="rounded-lg border border-slate-800 bg-slate-900/60 p-4">
+              <NodeStateEditor
+                key={`${selectedNode.id}:${selectedPasses}`}
+                nodeId={selectedNode.id}
+                nodeTitle={selectedNode.title}
+              />
+            </div>
           </aside>
         </>
       )}
+
+      {completingNode && (
+        <CompletionDialog
+          node={completingNode}
+          onCancel={() => setCompletingNodeId(null)}
+          onCompleted={handleCompletionDone}
+        />
+      )}
     </div>
   );
 }
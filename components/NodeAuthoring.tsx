@@ -0,0 +1,593 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { autoLayoutNodes, type AutoLayoutMode } from "../auto-layout";
+import { createBlankNode, downloadNodesFile, renameNodeId } from "../node-authoring";
+import type { NodeLintRuleId } from "../node-lint";
+import { validateNodesFile, type NodeDiagnostic } from "../validate-nodes";
+import type {
+  DependencyRule,
+  NodeDefinition,
+  NodeDomain,
+  NodePhase,
+  NodesFile,
+  NodeType,
+  SpiralPosition,
+  TreePosition,
+} from "../types";
+
+const NODE_TYPES: NodeType[] = ["spiral", "tree", "hybrid"];
+const NODE_PHASES: NodePhase[] = [
+  "ego",
+  "persona",
+  "shadow",
+  "inner_other",
+  "disintegration",
+  "recenter",
+  "integration",
+  "reentry",
+  "domain",
+  "meta",
+];
+const NODE_DOMAINS: NodeDomain[] = ["meta", "inner", "work", "relationships", "meaning", "body"];
+
+const inputClass =
+  "rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100";
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1 text-xs text-slate-400">
+      <span>{label}</span>
+      {children}
+    </label>
+  );
+}
+
+// List fields are edited as text and committed on blur so separators can be typed freely.
+function ListInput({
+  value,
+  onChange,
+  multiline = false,
+}: {
+  value: string[];
+  onChange: (next: string[]) => void;
+  multiline?: boolean;
+}) {
+  const separator = multiline ? "\n" : ", ";
+  const [text, setText] = useState(value.join(separator));
+  const commit = () =>
+    onChange(
+      text
+        .split(multiline ? "\n" : ",")
+        .map((s) => s.trim())
+        .filter(Boolean)
+    );
+  return multiline ? (
+    <textarea
+      value={text}
+      onChange={(event) => setText(event.target.value)}
+      onBlur={commit}
+      rows={3}
+      className={`${inputClass} resize-y`}
+    />
+  ) : (
+    <input value={text} onChange={(event) => setText(event.target.value)} onBlur={commit} className={inputClass} />
+  );
+}
+
+// Dependency rules are edited as JSON; invalid JSON is reported and not committed.
+function RulesInput({
+  value,
+  onChange,
+}: {
+  value: DependencyRule[];
+  onChange: (next: DependencyRule[]) => void;
+}) {
+  const [text, setText] = useState(value.length ? JSON.stringify(value, null, 2) : "");
+  const [error, setError] = useState<string | null>(null);
+  const commit = () => {
+    if (!text.trim()) {
+      setError(null);
+      onChange([]);
+      return;
+    }
+    try {
+      const parsed = JSON.parse(text);
+      if (!Array.isArray(parsed)) throw new Error("Expected a JSON array of rules.");
+      setError(null);
+      onChange(parsed as DependencyRule[]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Invalid JSON.");
+    }
+  };
+  return (
+    <>
+      <textarea
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onBlur={commit}
+        rows={4}
+        placeholder='[{ "any": ["node_a", "node_b"] }, { "soft": ["node_c"] }, { "phase": "shadow", "min": 2 }]'
+        className={`${inputClass} resize-y font-mono text-xs`}
+      />
+      {error && <span className="text-rose-300">{error}</span>}
+    </>
+  );
+}
+
+function NumberInput({ value, onChange }: { value: number; onChange: (next: number) => void }) {
+  return (
+    <input
+      type="number"
+      step="any"
+      value={Number.isFinite(value) ? value : 0}
+      onChange={(event) => onChange(Number(event.target.value))}
+      className={inputClass}
+    />
+  );
+}
+
+export default function NodeAuthoring() {
+  const [file, setFile] = useState<NodesFile | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [idDraft, setIdDraft] = useState("");
+  const [filter, setFilter] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [layoutNotice, setLayoutNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const load = async () => {
+      try {
+        const res = await fetch("/nodes.json", { cache: "no-store" });
+        if (!res.ok) throw new Error(`Failed to load nodes.json: ${res.status}`);
+        const data = (await res.json()) as NodesFile;
+        if (!active) return;
+        setFile(data);
+        setSelectedId(data.nodes[0]?.id ?? null);
+      } catch (error) {
+        if (active) setErrorMessage(error instanceof Error ? error.message : "Failed to load nodes.json.");
+      }
+    };
+    load();
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const issues = useMemo(() => (file ? validateNodesFile(file) : []), [file]);
+  const errorCount = issues.filter((i) => i.severity === "error").length;
+  const issuesByNode = useMemo(() => {
+    const map = new Map<string, NodeDiagnostic[]>();
+    for (const issue of issues) {
+      if (!issue.nodeId) continue;
+      map.set(issue.nodeId, [...(map.get(issue.nodeId) ?? []), issue]);
+    }
+    return map;
+  }, [issues]);
+
+  const selectedIndex = file?.nodes.findIndex((n) => n.id === selectedId) ?? -1;
+  const selected = selectedIndex >= 0 ? file!.nodes[selectedIndex] : null;
+
+  const selectedNodeId = selected?.id ?? "";
+  useEffect(() => {
+    setIdDraft(selectedNodeId);
+  }, [selectedNodeId]);
+
+  const updateSelected = (patch: Partial<NodeDefinition>) => {
+    if (!file || selectedIndex < 0) return;
+    const nodes = file.nodes.slice();
+    nodes[selectedIndex] = { ...nodes[selectedIndex], ...patch };
+    setFile({ ...file, nodes });
+  };
+
+  const updateSpiral = (patch: Partial<SpiralPosition> | null) => {
+    if (!selected) return;
+    const current = selected.ui_position.spiral ?? { theta: 0, radius: 100, order: 1 };
+    const ui_position = { ...selected.ui_position };
+    if (patch) ui_position.spiral = { ...current, ...patch };
+    else delete ui_position.spiral;
+    updateSelected({ ui_position });
+  };
+
+  const updateTree = (patch: Partial<TreePosition> | null) => {
+    if (!selected) return;
+    const current = selected.ui_position.tree ?? { x: 0, y: 0, branch: selected.domain, level: 1, parent_id: null };
+    const ui_position = { ...selected.ui_position };
+    if (patch) ui_position.tree = { ...current, ...patch };
+    else delete ui_position.tree;
+    updateSelected({ ui_position });
+  };
+
+  const commitRename = () => {
+    if (!file || !selected || !idDraft.trim() || idDraft === selected.id) return;
+    const nextId = idDraft.trim();
+    setFile({ ...file, nodes: renameNodeId(file.nodes, selected.id, nextId) });
+    setSelectedId(nextId);
+  };
+
+  const handleAdd = () => {
+    if (!file) return;
+    const node = createBlankNode(file.nodes);
+    setFile({ ...file, nodes: [...file.nodes, node] });
+    setSelectedId(node.id);
+  };
+
+  const handleDelete = () => {
+    if (!file || !selected) return;
+    if (!window.confirm(`Delete node '${selected.id}' from the draft?`)) return;
+    const nodes = file.nodes.filter((n) => n.id !== selected.id);
+    setFile({ ...file, nodes });
+    setSelectedId(nodes[0]?.id ?? null);
+  };
+
+  const handleLayout = (mode: AutoLayoutMode) => {
+    if (!file) return;
+    if (mode === "all" && !window.confirm("Re-layout every node? Hand-placed positions in the draft are replaced.")) return;
+    const result = autoLayoutNodes(file.nodes, { mode });
+    setFile({ ...file, nodes: result.nodes });
+    setLayoutNotice(
+      result.moved.length
+        ? `Positioned ${result.moved.length} node(s) (${result.placed.length} had no ui_position). Export to keep the layout.`
+        : "Layout unchanged: every node has a position and none overlap."
+    );
+  };
+
+  const visibleNodes = (file?.nodes ?? []).filter((n) => {
+    const q = filter.trim().toLowerCase();
+    return !q || n.id.includes(q) || n.title.toLowerCase().includes(q);
+  });
+  const globalIssues = issues.filter((i) => !i.nodeId);
+  const selectedIssues = selected ? issuesByNode.get(selected.id) ?? [] : [];
+
+  return (
+    <main className="flex h-screen flex-col">
+      <header className="flex flex-wrap items-center justify-between gap-4 border-b border-slate-800 bg-slate-950/90 px-6 py-4 text-slate-100">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-slate-400">Authoring</p>
+          <h1 className="text-2xl font-semibold">Node content editor</h1>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <span className={errorCount ? "text-rose-300" : "text-emerald-300"}>
+            {errorCount} error(s) · {issues.length - errorCount} warning(s)
+          </span>
+          <button
+            onClick={() => handleLayout("missing")}
+            disabled={!file}
+            title="Place nodes without ui_position and push overlapping nodes apart"
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-slate-100 hover:bg-slate-700 disabled:opacity-50"
+          >
+            Place missing
+          </button>
+          <button
+            onClick={() => handleLayout("all")}
+            disabled={!file}
+            title="Spiral from order, tidy tree from parent_id/branch"
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-slate-100 hover:bg-slate-700 disabled:opacity-50"
+          >
+            Re-layout all
+          </button>
+          <button
+            onClick={() => file && downloadNodesFile(file)}
+            disabled={!file || errorCount > 0}
+            title={errorCount ? "Fix all errors before exporting" : undefined}
+            className="rounded-lg border border-sky-500/60 bg-sky-500/20 px-3 py-1 font-semibold text-sky-100 hover:bg-sky-500/30 disabled:opacity-50"
+          >
+            Export nodes.json
+          </button>
+          <Link
+            href="/journey"
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-slate-100 hover:bg-slate-700"
+          >
+            Back to journey
+          </Link>
+        </div>
+      </header>
+
+      {errorMessage && (
+        <div className="mx-6 mt-4 rounded-lg border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+          {errorMessage}
+        </div>
+      )}
+      {layoutNotice && (
+        <div className="mx-6 mt-4 rounded-lg border border-emerald-500/50 bg-emerald-500/10 px-3 py-2 text-xs text-emerald-200">
+          {layoutNotice}
+        </div>
+      )}
+
+      <div className="flex min-h-0 flex-1">
+        <aside className="flex w-72 flex-col gap-2 overflow-y-auto border-r border-slate-800 p-4">
+          <input
+            value={filter}
+            onChange={(event) => setFilter(event.target.value)}
+            placeholder="Filter nodes"
+            className={inputClass}
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!file}
+            className="rounded-lg border border-emerald-500/60 bg-emerald-500/10 px-3 py-2 text-xs font-medium text-emerald-200 hover:bg-emerald-500/20 disabled:opacity-50"
+          >
+            New node
+          </button>
+          {visibleNodes.map((n) => {
+            const nodeIssues = issuesByNode.get(n.id) ?? [];
+            const hasError = nodeIssues.some((i) => i.severity === "error");
+            return (
+              <button
+                key={`${n.id}-${file!.nodes.indexOf(n)}`}
+                onClick={() => setSelectedId(n.id)}
+                className={`rounded-lg px-3 py-2 text-left text-xs ${
+                  n.id === selectedId ? "bg-slate-800 text-slate-100" : "text-slate-300 hover:bg-slate-900"
+                }`}
+              >
+                <span className="block font-medium">{n.title}</span>
+                <span className="flex items-center gap-2 text-[11px] text-slate-500">
+                  {n.id} · {n.type}
+                  {nodeIssues.length > 0 && (
+                    <span className={hasError ? "text-rose-300" : "text-amber-300"}>
+                      {nodeIssues.length} issue(s)
+                    </span>
+                  )}
+                </span>
+              </button>
+            );
+          })}
+        </aside>
+
+        <section className="flex-1 overflow-y-auto p-6">
+          {globalIssues.length > 0 && (
+            <ul className="mb-4 flex flex-col gap-1 rounded-lg border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+              {globalIssues.map((issue, i) => (
+                <li key={i}>{issue.message}</li>
+              ))}
+            </ul>
+          )}
+
+          {!selected ? (
+            <p className="text-sm text-slate-400">{file ? "Select a node to edit." : "Loading nodes.json…"}</p>
+          ) : (
+            <div key={selected.id} className="mx-auto flex max-w-3xl flex-col gap-4">
+              {selectedIssues.length > 0 && (
+                <ul className="flex flex-col gap-1 text-xs">
+                  {selectedIssues.map((issue, i) => (
+                    <li
+                      key={i}
+                      className={`rounded-lg border px-3 py-2 ${
+                        issue.severity === "error"
+                          ? "border-rose-500/50 bg-rose-500/10 text-rose-200"
+                          : "border-amber-500/50 bg-amber-500/10 text-amber-200"
+                      }`}
+                    >
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <Field label="Id (renaming updates references)">
+                  <input
+                    value={idDraft}
+                    onChange={(event) => setIdDraft(event.target.value)}
+                    onBlur={commitRename}
+                    className={inputClass}
+                  />
+                </Field>
+                <Field label="Title">
+                  <input
+                    value={selected.title}
+                    onChange={(event) => updateSelected({ title: event.target.value })}
+                    className={inputClass}
+                  />
+                </Field>
+                <Field label="Type">
+                  <select
+                    value={selected.type}
+                    onChange={(event) => updateSelected({ type: event.target.value as NodeType })}
+                    className={inputClass}
+                  >
+                    {NODE_TYPES.map((t) => (
+                      <option key={t}>{t}</option>
+                    ))}
+                  </select>
+                </Field>
+                <Field label="Version">
+                  <NumberInput value={selected.version} onChange={(version) => updateSelected({ version })} />
+                </Field>
+                <Field label="Phase">
+                  <select
+                    value={selected.phase}
+                    onChange={(event) => updateSelected({ phase: event.target.value as NodePhase })}
+                    className={inputClass}
+                  >
+                    {NODE_PHASES.map((p) => (
+                      <option key={p}>{p}</option>
+                    ))}
+                  </select>
+                </Field>
+                <Field label="Domain">
+                  <select
+                    value={selected.domain}
+                    onChange={(event) => updateSelected({ domain: event.target.value as NodeDomain })}
+                    className={inputClass}
+                  >
+                    {NODE_DOMAINS.map((d) => (
+                      <option key={d}>{d}</option>
+                    ))}
+                  </select>
+                </Field>
+              </div>
+
+              <Field label="Description">
+                <textarea
+                  value={selected.description}
+                  onChange={(event) => updateSelected({ description: event.target.value })}
+                  rows={3}
+                  className={`${inputClass} resize-y`}
+                />
+              </Field>
+
+              <Field label="Dependencies">
+                <div className="flex max-h-40 flex-wrap gap-2 overflow-y-auto rounded-lg border border-slate-800 p-2">
+                  {file!.nodes
+                    .filter((n) => n.id !== selected.id)
+                    .map((n) => (
+                      <label key={n.id} className="flex items-center gap-1 text-slate-300">
+                        <input
+                          type="checkbox"
+                          checked={selected.dependencies.includes(n.id)}
+                          onChange={(event) =>
+                            updateSelected({
+                              dependencies: event.target.checked
+                                ? [...selected.dependencies, n.id]
+                                : selected.dependencies.filter((d) => d !== n.id),
+                            })
+                          }
+                        />
+                        {n.id}
+                      </label>
+                    ))}
+                </div>
+              </Field>
+
+              <Field label="Dependency rules (JSON: all / any with min / soft / phase gate)">
+                <RulesInput
+                  value={selected.dependency_rules ?? []}
+                  onChange={(rules) => updateSelected({ dependency_rules: rules.length ? rules : undefined })}
+                />
+              </Field>
+
+              <div className="grid grid-cols-2 gap-4">
+                <Field label="Tags (comma-separated)">
+                  <ListInput value={selected.tags} onChange={(tags) => updateSelected({ tags })} />
+                </Field>
+                <Field label="Symbol focus (comma-separated)">
+                  <ListInput
+                    value={selected.symbol_focus ?? []}
+                    onChange={(symbol_focus) => updateSelected({ symbol_focus })}
+                  />
+                </Field>
+              </div>
+
+              <Field label="Prompt template">
+                <textarea
+                  value={selected.prompt_template}
+                  onChange={(event) => updateSelected({ prompt_template: event.target.value })}
+                  rows={10}
+                  className={`${inputClass} resize-y font-mono text-xs`}
+                />
+              </Field>
+
+              <div className="grid grid-cols-2 gap-4">
+                <Field label="Personalization prompts (one per line)">
+                  <ListInput
+                    multiline
+                    value={selected.personalization_prompts ?? []}
+                    onChange={(personalization_prompts) => updateSelected({ personalization_prompts })}
+                  />
+                </Field>
+                <Field label="Completion checklist (one per line)">
+                  <ListInput
+                    multiline
+                    value={selected.completion_checklist ?? []}
+                    onChange={(completion_checklist) => updateSelected({ completion_checklist })}
+                  />
+                </Field>
+              </div>
+
+              <Field label="Suppressed lint rules (comma-separated rule ids)">
+                <ListInput
+                  value={selected.lint_ignore ?? []}
+                  onChange={(lint_ignore) => updateSelected({ lint_ignore: lint_ignore.length ? (lint_ignore as NodeLintRuleId[]) : undefined })}
+                />
+              </Field>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="flex flex-col gap-2 rounded-lg border border-slate-800 p-3">
+                  <label className="flex items-center gap-2 text-xs text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(selected.ui_position.spiral)}
+                      onChange={(event) => updateSpiral(event.target.checked ? {} : null)}
+                    />
+                    Spiral position
+                  </label>
+                  {selected.ui_position.spiral && (
+                    <>
+                      <Field label="Theta (radians)">
+                        <NumberInput value={selected.ui_position.spiral.theta} onChange={(theta) => updateSpiral({ theta })} />
+                      </Field>
+                      <Field label="Radius">
+                        <NumberInput value={selected.ui_position.spiral.radius} onChange={(radius) => updateSpiral({ radius })} />
+                      </Field>
+                      <Field label="Order">
+                        <NumberInput value={selected.ui_position.spiral.order} onChange={(order) => updateSpiral({ order })} />
+                      </Field>
+                    </>
+                  )}
+                </div>
+                <div className="flex flex-col gap-2 rounded-lg border border-slate-800 p-3">
+                  <label className="flex items-center gap-2 text-xs text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(selected.ui_position.tree)}
+                      onChange={(event) => updateTree(event.target.checked ? {} : null)}
+                    />
+                    Tree position
+                  </label>
+                  {selected.ui_position.tree && (
+                    <>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Field label="X">
+                          <NumberInput value={selected.ui_position.tree.x} onChange={(x) => updateTree({ x })} />
+                        </Field>
+                        <Field label="Y">
+                          <NumberInput value={selected.ui_position.tree.y} onChange={(y) => updateTree({ y })} />
+                        </Field>
+                      </div>
+                      <Field label="Branch">
+                        <input
+                          value={selected.ui_position.tree.branch}
+                          onChange={(event) => updateTree({ branch: event.target.value })}
+                          className={inputClass}
+                        />
+                      </Field>
+                      <Field label="Level">
+                        <NumberInput value={selected.ui_position.tree.level} onChange={(level) => updateTree({ level })} />
+                      </Field>
+                      <Field label="Parent">
+                        <select
+                          value={selected.ui_position.tree.parent_id ?? ""}
+                          onChange={(event) => updateTree({ parent_id: event.target.value || null })}
+                          className={inputClass}
+                        >
+                          <option value="">(root)</option>
+                          {file!.nodes
+                            .filter((n) => n.id !== selected.id)
+                            .map((n) => (
+                              <option key={n.id} value={n.id}>
+                                {n.id}
+                              </option>
+                            ))}
+                        </select>
+                      </Field>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <button
+                onClick={handleDelete}
+                className="self-start rounded-lg border border-rose-500/60 bg-rose-500/10 px-4 py-2 text-xs text-rose-200 hover:bg-rose-500/20"
+              >
+                Delete node
+              </button>
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { getGlobalSettings } from "../journey";
+import {
+  addCommitment,
+  generateNodeSummary,
+  getUserNodeState,
+  isCommitmentOverdue,
+  removeCommitment,
+  updateCommitment,
+  updatePassNotes,
+  updateUserNodeState,
+} from "../node-state";
+import type { UserNodeState } from "../types";
+
+interface NodeStateEditorProps {
+  nodeId: string;
+  nodeTitle: string;
+}
+
+export default function NodeStateEditor({ nodeId, nodeTitle }: NodeStateEditorProps) {
+  const [state, setState] = useState<UserNodeState | null>(null);
+  const [notesDraft, setNotesDraft] = useState("");
+  const [summaryDraft, setSummaryDraft] = useState("");
+  const [newCommitment, setNewCommitment] = useState("");
+  const [newDueDate, setNewDueDate] = useState("");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const applyState = useCallback((row: UserNodeState | undefined | null) => {
+    setState(row ?? null);
+    setNotesDraft(row?.progressNotes ?? "");
+    setSummaryDraft(row?.personalizedSummary ?? "");
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    setErrorMessage(null);
+    getUserNodeState(nodeId).then((row) => {
+      if (active) applyState(row);
+    });
+    return () => {
+      active = false;
+    };
+  }, [nodeId, applyState]);
+
+  const run = async (action: () => Promise<UserNodeState>, fallback: string) => {
+    setErrorMessage(null);
+    try {
+      setState(await action());
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : fallback);
+    }
+  };
+
+  const notesDirty = notesDraft !== (state?.progressNotes ?? "");
+  const summaryDirty = summaryDraft !== (state?.personalizedSummary ?? "");
+
+  const handleSaveText = () =>
+    run(
+      () =>
+        updateUserNodeState(nodeId, {
+          progressNotes: notesDraft,
+          personalizedSummary: summaryDraft,
+        }),
+      "Failed to save notes."
+    );
+
+  const handleGenerateSummary = async () => {
+    setIsGenerating(true);
+    setErrorMessage(null);
+    try {
+      const settings = await getGlobalSettings();
+      const row = await generateNodeSummary(nodeId, {
+        nodeTitle,
+        apiKey: settings?.openAiApiKey,
+        model: settings?.modelSummarize,
+      });
+      setState(row);
+      setSummaryDraft(row.personalizedSummary ?? "");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to generate summary.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleAddCommitment = async () => {
+    if (!newCommitment.trim()) return;
+    await run(
+      () => addCommitment(nodeId, { text: newCommitment, dueDate: newDueDate || null }),
+      "Failed to add commitment."
+    );
+    setNewCommitment("");
+    setNewDueDate("");
+  };
+
+  if (!state) {
+    return <p className="text-xs text-slate-500">Loading notes…</p>;
+  }
+
+  const commitments = state.commitments ?? [];
+  const completions = state.completions ?? [];
+
+  return (
+    <div className="flex flex-col gap-4 text-xs">
+      {errorMessage && (
+        <div className="rounded-lg border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-rose-200">
+          {errorMessage}
+        </div>
+      )}
+
+      <label className="flex flex-col gap-1">
+        <span className="font-medium text-slate-300">Progress notes</span>
+        <textarea
+          value={notesDraft}
+          onChange={(event) => setNotesDraft(event.target.value)}
+          rows={4}
+          placeholder="What are you noticing in this node?"
+          className="resize-y rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100 placeholder:text-slate-500"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="flex items-center justify-between font-medium text-slate-300">
+          Personalized summary
+          <button
+            type="button"
+            onClick={handleGenerateSummary}
+            disabled={isGenerating}
+            className="rounded-md border border-slate-700 px-2 py-0.5 text-[10px] font-normal text-slate-200 hover:bg-slate-800 disabled:opacity-60"
+          >
+            {isGenerating ? "Generating…" : "Generate from my threads"}
+          </button>
+        </span>
+        <textarea
+          value={summaryDraft}
+          onChange={(event) => setSummaryDraft(event.target.value)}
+          rows={4}
+          className="resize-y rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100"
+        />
+      </label>
+
+      {(notesDirty || summaryDirty) && (
+        <button
+          onClick={handleSaveText}
+          className="self-start rounded-md border border-sky-500/60 bg-sky-500/20 px-3 py-1 font-semibold text-sky-100 hover:bg-sky-500/30"
+        >
+          Save notes
+        </button>
+      )}
+
+      {completions.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <span className="font-medium text-slate-300">Passes</span>
+          <ol className="flex flex-col gap-2">
+            {completions.map((p) => (
+              <li key={p.pass} className="flex flex-col gap-1 rounded-md border border-slate-800 bg-slate-900/60 p-2">
+                <span className="text-slate-400">
+                  Pass {p.pass} · completed {new Date(p.completedAt).toLocaleDateString()}
+                </span>
+                {/* Saved on blur; uncontrolled so each pass keeps its own draft. */}
+                <textarea
+                  key={`${p.pass}:${p.notes ?? ""}`}
+                  defaultValue={p.notes ?? ""}
+                  onBlur={(event) => {
+                    if (event.target.value.trim() === (p.notes ?? "")) return;
+                    run(() => updatePassNotes(nodeId, p.pass, event.target.value), "Failed to save pass notes.");
+                  }}
+                  rows={2}
+                  placeholder="What was different this time around?"
+                  className="resize-y rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100 placeholder:text-slate-500"
+                />
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <span className="font-medium text-slate-300">Commitments</span>
+        {commitments.length === 0 ? (
+          <p className="text-slate-500">No commitments yet.</p>
+        ) : (
+          <ul className="flex flex-col gap-1">
+            {commitments.map((c) => (
+              <li
+                key={c.id}
+                className="flex items-center gap-2 rounded-md border border-slate-800 bg-slate-900/60 px-2 py-1"
+              >
+                <input
+                  type="checkbox"
+                  checked={c.done}
+                  onChange={(event) =>
+                    run(
+                      () => updateCommitment(nodeId, c.id, { done: event.target.checked }),
+                      "Failed to update commitment."
+                    )
+                  }
+                />
+                <span className={`flex-1 ${c.done ? "text-slate-500 line-through" : "text-slate-100"}`}>
+                  {c.text}
+                </span>
+                <input
+                  type="date"
+                  value={c.dueDate ?? ""}
+                  onChange={(event) =>
+                    run(
+                      () => updateCommitment(nodeId, c.id, { dueDate: event.target.value || null }),
+                      "Failed to update commitment."
+                    )
+                  }
+                  className={`rounded border bg-slate-950 px-1 text-[10px] ${
+                    isCommitmentOverdue(c)
+                      ? "border-rose-500/60 text-rose-200"
+                      : "border-slate-700 text-slate-300"
+                  }`}
+                />
+                <button
+                  onClick={() => run(() => removeCommitment(nodeId, c.id), "Failed to remove commitment.")}
+                  className="text-slate-500 hover:text-slate-200"
+                  aria-label={`Remove commitment ${c.text}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex items-center gap-2">
+          <input
+            value={newCommitment}
+            onChange={(event) => setNewCommitment(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") handleAddCommitment();
+            }}
+            placeholder="New commitment…"
+            className="flex-1 rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100 placeholder:text-slate-500"
+          />
+          <input
+            type="date"
+            value={newDueDate}
+            onChange={(event) => setNewDueDate(event.target.value)}
+            className="rounded-md border border-slate-700 bg-slate-900 px-1 py-1 text-slate-300"
+          />
+          <button
+            onClick={handleAddCommitment}
+            disabled={!newCommitment.trim()}
+            className="rounded-md border border-slate-700 bg-slate-800 px-2 py-1 text-slate-100 hover:bg-slate-700 disabled:opacity-60"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getActivePackId, listInstalledPacks, setActivePack, subscribeActivePack } from "../content-packs";
+import type { ContentMeta } from "../types";
+
+export default function PackSwitcher() {
+  const [packs, setPacks] = useState<ContentMeta[]>([]);
+  const [activePackId, setActivePackId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const refresh = async () => {
+      const [installed, activeId] = await Promise.all([listInstalledPacks(), getActivePackId()]);
+      if (!active) return;
+      setPacks(installed);
+      setActivePackId(activeId);
+    };
+    refresh();
+    const unsubscribe = subscribeActivePack(refresh);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  if (packs.length < 2) return null;
+
+  return (
+    <label className="flex items-center gap-2">
+      <span>Journey</span>
+      <select
+        value={activePackId ?? ""}
+        onChange={(event) => setActivePack(event.target.value)}
+        className="rounded-lg border border-slate-700 bg-slate-800 px-2 py-1 text-xs text-slate-100"
+      >
+        {packs.map((pack) => (
+          <option key={pack.packId} value={pack.packId}>
+            {pack.title}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
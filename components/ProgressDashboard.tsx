@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { subscribeActivePack } from "../content-packs";
+import { getJourneyProgress, type CompletionBreakdown, type JourneyProgress } from "../progress";
+import { ensureUserNodeStateRows, seedNodeDefinitionsFromUrl } from "../seed";
+import PackSwitcher from "./PackSwitcher";
+
+const STAT_ITEMS = [
+  { key: "completed", label: "Completed", className: "text-emerald-300" },
+  { key: "next", label: "Next", className: "text-yellow-300" },
+  { key: "available", label: "Available", className: "text-sky-300" },
+  { key: "locked", label: "Locked", className: "text-slate-400" },
+] as const;
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString();
+}
+
+function formatDays(days: number) {
+  if (days < 1) return `${Math.max(1, Math.round(days * 24))} h`;
+  return `${Math.round(days)} day(s)`;
+}
+
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-4">
+      <h2 className="mb-3 text-xs uppercase tracking-wide text-slate-400">{title}</h2>
+      {children}
+    </div>
+  );
+}
+
+function Empty({ children }: { children: React.ReactNode }) {
+  return <p className="text-xs text-slate-500">{children}</p>;
+}
+
+function CompletionBars({ rows }: { rows: CompletionBreakdown[] }) {
+  return (
+    <ul className="flex flex-col gap-2 text-xs">
+      {rows.map((row) => (
+        <li key={row.key}>
+          <div className="flex justify-between text-slate-300">
+            <span>{row.key.replace(/_/g, " ")}</span>
+            <span className="text-slate-400">
+              {row.completed}/{row.total}
+            </span>
+          </div>
+          <div className="mt-1 h-2 overflow-hidden rounded-full bg-slate-800">
+            <div
+              className="h-full rounded-full bg-emerald-500"
+              style={{ width: `${row.total ? (row.completed / row.total) * 100 : 0}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function ProgressDashboard() {
+  const seededRef = useRef(false);
+  const [progress, setProgress] = useState<JourneyProgress | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const refreshData = useCallback(async () => {
+    try {
+      setProgress(await getJourneyProgress());
+      setErrorMessage(null);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Failed to compute progress.");
+    }
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    const load = async () => {
+      if (!seededRef.current) {
+        seededRef.current = true;
+        await seedNodeDefinitionsFromUrl("/nodes.json");
+        await ensureUserNodeStateRows();
+      }
+      if (!active) return;
+      await refreshData();
+    };
+    load();
+    const unsubscribe = subscribeActivePack(refreshData);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [refreshData]);
+
+  const busiestWeek = Math.max(1, ...(progress?.messageVolume.flatMap((v) => v.weekly) ?? []));
+  const longestInterval = Math.max(1, ...(progress?.spiralIntervals.map((s) => s.daysSincePrevious ?? 0) ?? []));
+  const topSymbolCount = progress?.topSymbols[0]?.count ?? 1;
+
+  return (
+    <main className="flex min-h-screen flex-col">
+      <header className="flex flex-wrap items-center justify-between gap-4 border-b border-slate-800 bg-slate-950/90 px-6 py-4 text-slate-100">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-slate-400">Progress</p>
+          <h1 className="text-2xl font-semibold">Journey analytics</h1>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-slate-300">
+          <PackSwitcher />
+          <Link
+            href="/journey"
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+          >
+            Back to journey
+          </Link>
+        </div>
+      </header>
+
+      <section className="mx-auto flex w-full max-w-5xl flex-col gap-6 px-6 py-6 text-slate-100">
+        {errorMessage && (
+          <div className="rounded-lg border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+            {errorMessage}
+          </div>
+        )}
+        {!progress ? (
+          <p className="text-sm text-slate-400">Loading…</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+              <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-4">
+                <div className="text-2xl font-semibold">
+                  {progress.total ? Math.round((progress.counts.completed / progress.total) * 100) : 0}%
+                </div>
+                <div className="text-xs text-slate-400">of {progress.total} nodes completed</div>
+              </div>
+              {STAT_ITEMS.map((item) => (
+                <div key={item.key} className="rounded-2xl border border-slate-800 bg-slate-900/60 p-4">
+                  <div className={`text-2xl font-semibold ${item.className}`}>{progress.counts[item.key]}</div>
+                  <div className="text-xs text-slate-400">{item.label}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <Panel title="Completion by phase">
+                <CompletionBars rows={progress.byPhase} />
+              </Panel>
+              <Panel title="Completion by domain">
+                <CompletionBars rows={progress.byDomain} />
+              </Panel>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <Panel title="Completion timeline">
+                {progress.completions.length ? (
+                  <ol className="flex flex-col gap-2 border-l border-slate-700 pl-4 text-xs">
+                    {progress.completions.map((c) => (
+                      <li key={`${c.nodeId}:${c.pass}`} className="relative">
+                        <span className="absolute -left-[21px] top-1 h-2 w-2 rounded-full bg-emerald-500" aria-hidden />
+                        <span className="text-slate-200">{c.title}</span>
+                        {c.pass > 1 && <span className="ml-2 text-emerald-300">pass {c.pass}</span>}
+                        <span className="ml-2 text-slate-500">{formatDate(c.completedAt)}</span>
+                      </li>
+                    ))}
+                  </ol>
+                ) : (
+                  <Empty>No completed nodes yet.</Empty>
+                )}
+              </Panel>
+              <Panel title="Time between spiral steps">
+                {progress.spiralIntervals.length ? (
+                  <ul className="flex flex-col gap-2 text-xs">
+                    {progress.spiralIntervals.map((step) => (
+                      <li key={step.nodeId}>
+                        <div className="flex justify-between text-slate-300">
+                          <span>
+                            {step.order}. {step.title}
+                          </span>
+                          <span className="text-slate-400">
+                            {step.daysSincePrevious == null ? "first step" : formatDays(step.daysSincePrevious)}
+                          </span>
+                        </div>
+                        {step.daysSincePrevious != null && (
+                          <div className="mt-1 h-1.5 overflow-hidden rounded-full bg-slate-800">
+                            <div
+                              className="h-full rounded-full bg-sky-500"
+                              style={{ width: `${(step.daysSincePrevious / longestInterval) * 100}%` }}
+                            />
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <Empty>Complete spiral steps to see your pace.</Empty>
+                )}
+              </Panel>
+            </div>
+
+            <Panel title={`Messages per node (last ${progress.weeks.length} weeks)`}>
+              {progress.messageVolume.length ? (
+                <table className="w-full text-xs">
+                  <tbody>
+                    {progress.messageVolume.map((row) => (
+                      <tr key={row.nodeId} className="border-t border-slate-800">
+                        <td className="py-2 pr-4">
+                          <Link href={`/chat?nodeId=${row.nodeId}`} className="text-slate-200 hover:text-sky-300">
+                            {row.title}
+                          </Link>
+                        </td>
+                        <td className="w-full py-2">
+                          <div className="flex h-6 items-end gap-0.5">
+                            {row.weekly.map((count, i) => (
+                              <div
+                                key={progress.weeks[i]}
+                                title={`Week of ${formatDate(progress.weeks[i])}: ${count} message(s)`}
+                                className="flex-1 rounded-sm bg-sky-500/70"
+                                style={{ height: `${Math.max(count ? 10 : 2, (count / busiestWeek) * 100)}%` }}
+                              />
+                            ))}
+                          </div>
+                        </td>
+                        <td className="py-2 pl-4 text-right text-slate-400">{row.total}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <Empty>No messages yet.</Empty>
+              )}
+            </Panel>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <Panel title="Most frequent symbols">
+                {progress.topSymbols.length ? (
+                  <ul className="flex flex-col gap-2 text-xs">
+                    {progress.topSymbols.map((symbol) => (
+                      <li key={symbol.symbolId} className="flex items-center gap-2">
+                        <span className="w-28 shrink-0 truncate text-slate-200">{symbol.label}</span>
+                        <div className="h-2 flex-1 overflow-hidden rounded-full bg-slate-800">
+                          <div
+                            className="h-full rounded-full bg-amber-400"
+                            style={{ width: `${(symbol.count / topSymbolCount) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-6 text-right text-slate-400">{symbol.count}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <Empty>No symbols recorded yet.</Empty>
+                )}
+              </Panel>
+              <Panel title="Overdue commitments">
+                {progress.overdueCommitments.length ? (
+                  <ul className="flex flex-col gap-2 text-xs">
+                    {progress.overdueCommitments.map(({ nodeId, title, commitment, daysOverdue }) => (
+                      <li key={commitment.id} className="rounded-lg border border-rose-500/40 bg-rose-500/10 p-2">
+                        <div className="text-rose-100">{commitment.text}</div>
+                        <div className="mt-1 flex justify-between text-[10px] text-rose-300">
+                          <Link href={`/chat?nodeId=${nodeId}`} className="hover:text-rose-100">
+                            {title}
+                          </Link>
+                          <span>{daysOverdue} day(s) overdue</span>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <Empty>Nothing overdue.</Empty>
+                )}
+              </Panel>
+            </div>
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,414 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { getInstalledNodes } from "../journey";
+import { ensureUserNodeStateRows, seedNodeDefinitionsFromUrl } from "../seed";
+import {
+  deleteSymbol,
+  deleteSymbolMeaning,
+  getSymbolLibrary,
+  mergeSymbols,
+  updateSymbolDef,
+  updateSymbolMeaning,
+  type SymbolLibraryEntry,
+} from "../symbols";
+
+const CATEGORY_ORDER = ["place", "object", "person", "animal", "action", "emotion", "other"];
+
+const VALENCE_OPTIONS = [
+  { value: -2, label: "−2 very negative" },
+  { value: -1, label: "−1 negative" },
+  { value: 0, label: "0 neutral" },
+  { value: 1, label: "+1 positive" },
+  { value: 2, label: "+2 very positive" },
+];
+
+function categoryOf(entry: SymbolLibraryEntry) {
+  return entry.symbol.category && CATEGORY_ORDER.includes(entry.symbol.category)
+    ? entry.symbol.category
+    : "other";
+}
+
+interface SymbolCardProps {
+  entry: SymbolLibraryEntry;
+  allEntries: SymbolLibraryEntry[];
+  nodeTitles: Map<string, string>;
+  onChanged: () => Promise<void>;
+  onError: (message: string) => void;
+}
+
+function SymbolCard({ entry, allEntries, nodeTitles, onChanged, onError }: SymbolCardProps) {
+  const { symbol, meaning, occurrences } = entry;
+
+  const [expanded, setExpanded] = useState(false);
+  const [label, setLabel] = useState(symbol.label);
+  const [category, setCategory] = useState(categoryOf(entry));
+  const [personalMeaning, setPersonalMeaning] = useState(meaning?.personalMeaning ?? "");
+  const [valence, setValence] = useState<number | null>(meaning?.valence ?? null);
+  const [confidence, setConfidence] = useState(meaning?.confidence ?? 0.5);
+  const [domains, setDomains] = useState((meaning?.linkedDomains ?? []).join(", "));
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if (label.trim() !== symbol.label || category !== symbol.category) {
+        await updateSymbolDef(symbol.id, { label: label.trim() || symbol.label, category });
+      }
+      const linkedDomains = domains
+        .split(",")
+        .map((d) => d.trim())
+        .filter(Boolean);
+      const text = personalMeaning.trim();
+      const meaningChanged =
+        text !== (meaning?.personalMeaning ?? "") ||
+        (valence ?? undefined) !== meaning?.valence ||
+        confidence !== (meaning?.confidence ?? 0.5) ||
+        linkedDomains.join(",") !== (meaning?.linkedDomains ?? []).join(",");
+      const hasMetadata = valence != null || confidence !== 0.5 || linkedDomains.length > 0;
+      if (!text && !hasMetadata) {
+        // Everything blanked: drop the row so the symbol reads as having no meaning again.
+        if (meaning) await deleteSymbolMeaning(symbol.id);
+      } else if (meaningChanged) {
+        // A blank meaning with metadata is kept as-is; extraction still proposes meanings for it.
+        await updateSymbolMeaning(symbol.id, {
+          personalMeaning: text,
+          valence: valence ?? undefined,
+          confidence,
+          linkedDomains,
+        });
+      }
+      await onChanged();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to save symbol.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeTargetId) return;
+    const target = allEntries.find((e) => e.symbol.id === mergeTargetId);
+    if (!target) return;
+    const ok = window.confirm(
+      `Merge "${symbol.label}" into "${target.symbol.label}"? ${occurrences.length} occurrence(s) will move.`
+    );
+    if (!ok) return;
+    try {
+      await mergeSymbols(symbol.id, mergeTargetId);
+      await onChanged();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to merge symbols.");
+    }
+  };
+
+  const handleDelete = async () => {
+    const ok = window.confirm(
+      `Delete "${symbol.label}" with its meaning and ${occurrences.length} occurrence(s)?`
+    );
+    if (!ok) return;
+    try {
+      await deleteSymbol(symbol.id);
+      await onChanged();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to delete symbol.");
+    }
+  };
+
+  return (
+    <li className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+      <button
+        onClick={() => setExpanded((prev) => !prev)}
+        className="flex w-full items-start justify-between gap-4 text-left"
+      >
+        <div>
+          <div className="font-semibold text-slate-100">{symbol.label}</div>
+          <div className="mt-1 text-xs text-slate-300">
+            {meaning?.personalMeaning || <span className="text-slate-500">No personal meaning yet</span>}
+          </div>
+        </div>
+        <div className="flex shrink-0 flex-col items-end gap-1 text-[10px] text-slate-400">
+          <span>{occurrences.length} occurrence(s)</span>
+          {meaning?.valence != null && <span>valence {meaning.valence > 0 ? `+${meaning.valence}` : meaning.valence}</span>}
+          {meaning?.confidence != null && <span>confidence {Math.round(meaning.confidence * 100)}%</span>}
+        </div>
+      </button>
+
+      {meaning?.linkedDomains?.length ? (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {meaning.linkedDomains.map((d) => (
+            <span key={d} className="rounded-full border border-slate-700 px-2 py-0.5 text-[10px] text-slate-300">
+              {d}
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      {expanded && (
+        <div className="mt-4 flex flex-col gap-4 border-t border-slate-800 pt-4 text-xs">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">Label</span>
+              <input
+                value={label}
+                onChange={(event) => setLabel(event.target.value)}
+                className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">Category</span>
+              <select
+                value={category}
+                onChange={(event) => setCategory(event.target.value)}
+                className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+              >
+                {CATEGORY_ORDER.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="flex flex-col gap-1">
+            <span className="text-slate-400">Personal meaning</span>
+            <textarea
+              value={personalMeaning}
+              onChange={(event) => setPersonalMeaning(event.target.value)}
+              rows={3}
+              className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+            />
+          </label>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">Valence</span>
+              <select
+                value={valence ?? ""}
+                onChange={(event) =>
+                  setValence(event.target.value === "" ? null : Number(event.target.value))
+                }
+                className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+              >
+                <option value="">unset</option>
+                {VALENCE_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">Confidence {Math.round(confidence * 100)}%</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={confidence}
+                onChange={(event) => setConfidence(Number(event.target.value))}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">Linked domains</span>
+              <input
+                value={domains}
+                onChange={(event) => setDomains(event.target.value)}
+                placeholder="work, relationships"
+                className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+              />
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="rounded-lg border border-sky-500/60 bg-sky-500/20 px-3 py-1 font-semibold text-sky-100 hover:bg-sky-500/30 disabled:opacity-60"
+            >
+              Save
+            </button>
+            <select
+              value={mergeTargetId}
+              onChange={(event) => setMergeTargetId(event.target.value)}
+              className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+            >
+              <option value="">Merge into…</option>
+              {allEntries
+                .filter((e) => e.symbol.id !== symbol.id)
+                .map((e) => (
+                  <option key={e.symbol.id} value={e.symbol.id}>
+                    {e.symbol.label}
+                  </option>
+                ))}
+            </select>
+            <button
+              onClick={handleMerge}
+              disabled={!mergeTargetId}
+              className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-slate-100 hover:bg-slate-700 disabled:opacity-60"
+            >
+              Merge
+            </button>
+            <button
+              onClick={handleDelete}
+              className="ml-auto rounded-lg border border-rose-500/60 bg-rose-500/10 px-3 py-1 text-rose-200 hover:bg-rose-500/20"
+            >
+              Delete
+            </button>
+          </div>
+
+          <div>
+            <h3 className="mb-2 text-slate-400">Occurrences</h3>
+            {occurrences.length === 0 ? (
+              <p className="text-slate-500">No occurrences recorded.</p>
+            ) : (
+              <ul className="flex flex-col gap-2">
+                {occurrences.map((o) => (
+                  <li key={o.id} className="rounded-lg border border-slate-800 bg-slate-950/60 p-2">
+                    <p className="text-slate-200">“{o.contextSnippet || "…"}”</p>
+                    <div className="mt-1 flex flex-wrap items-center gap-2 text-[10px] text-slate-400">
+                      <span>{nodeTitles.get(o.nodeId) ?? o.nodeId}</span>
+                      <span>{new Date(o.createdAt).toLocaleString()}</span>
+                      {o.emotionTags?.map((tag) => (
+                        <span key={tag} className="rounded-full bg-slate-800 px-2 py-0.5">
+                          {tag}
+                        </span>
+                      ))}
+                      {o.threadId ? (
+                        <Link
+                          href={`/chat?nodeId=${o.nodeId}&threadId=${o.threadId}&messageId=${o.messageId}`}
+                          className="ml-auto text-sky-300 hover:text-sky-200"
+                        >
+                          Open message
+                        </Link>
+                      ) : (
+                        <span className="ml-auto text-slate-600">message deleted</span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function SymbolLibrary() {
+  const seededRef = useRef(false);
+  const [entries, setEntries] = useState<SymbolLibraryEntry[]>([]);
+  const [nodeTitles, setNodeTitles] = useState<Map<string, string>>(new Map());
+  const [query, setQuery] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshData = useCallback(async () => {
+    const [library, nodes] = await Promise.all([getSymbolLibrary(), getInstalledNodes()]);
+    setEntries(library);
+    setNodeTitles(new Map(nodes.map((n) => [n.id, n.title])));
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    const load = async () => {
+      if (!seededRef.current) {
+        seededRef.current = true;
+        await seedNodeDefinitionsFromUrl("/nodes.json");
+        await ensureUserNodeStateRows();
+      }
+      if (!active) return;
+      await refreshData();
+      setIsLoading(false);
+    };
+    load();
+    return () => {
+      active = false;
+    };
+  }, [refreshData]);
+
+  const grouped = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const groups = new Map<string, SymbolLibraryEntry[]>();
+    for (const entry of entries) {
+      if (
+        q &&
+        !entry.symbol.label.toLowerCase().includes(q) &&
+        !(entry.meaning?.personalMeaning ?? "").toLowerCase().includes(q)
+      ) {
+        continue;
+      }
+      const category = categoryOf(entry);
+      const list = groups.get(category) ?? [];
+      list.push(entry);
+      groups.set(category, list);
+    }
+    return CATEGORY_ORDER.filter((c) => groups.has(c)).map((c) => ({
+      category: c,
+      entries: groups.get(c)!,
+    }));
+  }, [entries, query]);
+
+  return (
+    <main className="flex min-h-screen flex-col">
+      <header className="flex flex-wrap items-center justify-between gap-4 border-b border-slate-800 bg-slate-950/90 px-6 py-4 text-slate-100">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-slate-400">Symbol library</p>
+          <h1 className="text-2xl font-semibold">Personal symbols</h1>
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Filter symbols…"
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-1 text-xs text-slate-100 placeholder:text-slate-500"
+          />
+          <Link
+            href="/journey"
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+          >
+            Back to journey
+          </Link>
+        </div>
+      </header>
+
+      <section className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-6">
+        {errorMessage && (
+          <div className="rounded-lg border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+            {errorMessage}
+          </div>
+        )}
+        {isLoading ? (
+          <p className="text-sm text-slate-400">Loading…</p>
+        ) : grouped.length === 0 ? (
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 text-center text-sm text-slate-300">
+            {entries.length
+              ? "No symbols match this filter."
+              : "No symbols yet. They are collected automatically as you chat in node threads."}
+          </div>
+        ) : (
+          grouped.map((group) => (
+            <div key={group.category}>
+              <h2 className="mb-3 text-xs uppercase tracking-wide text-slate-400">
+                {group.category} · {group.entries.length}
+              </h2>
+              <ul className="flex flex-col gap-3">
+                {group.entries.map((entry) => (
+                  <SymbolCard
+                    key={`${entry.symbol.id}-${entry.meaning?.lastUpdated ?? ""}-${entry.occurrences.length}`}
+                    entry={entry}
+                    allEntries={entries}
+                    nodeTitles={nodeTitles}
+                    onChanged={refreshData}
+                    onError={setErrorMessage}
+                  />
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+      </section>
+    </main>
+  );
+}
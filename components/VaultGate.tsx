@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  getVaultConfig,
+  isVaultUnlocked,
+  lockVault,
+  subscribeVault,
+  unlockVault,
+} from "../vault";
+import type { VaultConfig } from "../types";
+
+// Activity that postpones auto-lock.
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+/**
+ * Wraps the app: shows a lock screen while vault mode is on and locked,
+ * and locks again after `autoLockMinutes` without activity.
+ */
+export default function VaultGate({ children }: { children: React.ReactNode }) {
+  const [config, setConfig] = useState<VaultConfig | null | undefined>(undefined);
+  const [unlocked, setUnlocked] = useState(isVaultUnlocked());
+  const [passphrase, setPassphrase] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const refresh = async () => {
+      const next = await getVaultConfig();
+      if (!active) return;
+      setConfig(next);
+      setUnlocked(isVaultUnlocked());
+    };
+    refresh();
+    const unsubscribe = subscribeVault(refresh);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const autoLockMinutes = config?.autoLockMinutes ?? 0;
+
+  useEffect(() => {
+    if (!config || !unlocked || autoLockMinutes <= 0) return;
+    let timer = window.setTimeout(lockVault, autoLockMinutes * 60_000);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lockVault, autoLockMinutes * 60_000);
+    };
+    for (const name of ACTIVITY_EVENTS) window.addEventListener(name, reset, { passive: true });
+    return () => {
+      window.clearTimeout(timer);
+      for (const name of ACTIVITY_EVENTS) window.removeEventListener(name, reset);
+    };
+  }, [config, unlocked, autoLockMinutes]);
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setErrorMessage(null);
+    try {
+      await unlockVault(passphrase);
+      setPassphrase("");
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Could not unlock.");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  if (config === undefined) return null;
+  if (!config || unlocked) return <>{children}</>;
+
+  return (
+    <main className="flex min-h-screen items-center justify-center px-4">
+      <form
+        onSubmit={handleUnlock}
+        className="w-full max-w-sm rounded-2xl border border-slate-800 bg-slate-900/60 p-6 text-slate-100"
+      >
+        <p className="text-xs uppercase tracking-wide text-slate-400">Vault locked</p>
+        <h1 className="mt-1 text-xl font-semibold">Enter your passphrase</h1>
+        <p className="mt-2 text-xs text-slate-400">
+          Your messages, notes and symbol meanings are encrypted on this device.
+        </p>
+        {errorMessage && (
+          <div className="mt-3 rounded-lg border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+            {errorMessage}
+          </div>
+        )}
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(event) => setPassphrase(event.target.value)}
+          autoFocus
+          autoComplete="current-password"
+          className="mt-4 w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100"
+        />
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="mt-4 w-full rounded-lg border border-sky-500/60 bg-sky-500/20 px-4 py-2 text-sm font-semibold text-sky-100 hover:bg-sky-500/30 disabled:opacity-60"
+        >
+          {isUnlocking ? "Unlocking…" : "Unlock"}
+        </button>
+      </form>
+    </main>
+  );
+}
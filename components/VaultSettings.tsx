@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  changeVaultPassphrase,
+  disableVault,
+  enableVault,
+  getVaultConfig,
+  lockVault,
+  setVaultAutoLock,
+  subscribeVault,
+} from "../vault";
+import type { VaultConfig } from "../types";
+
+export default function VaultSettings() {
+  const [config, setConfig] = useState<VaultConfig | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [nextPassphrase, setNextPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [autoLockMinutes, setAutoLockMinutes] = useState(15);
+  const [isBusy, setIsBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const refresh = async () => {
+      const next = await getVaultConfig();
+      if (!active) return;
+      setConfig(next);
+      if (next) setAutoLockMinutes(next.autoLockMinutes);
+    };
+    refresh();
+    const unsubscribe = subscribeVault(refresh);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsBusy(true);
+    setErrorMessage(null);
+    setNotice(null);
+    try {
+      await action();
+      setPassphrase("");
+      setNextPassphrase("");
+      setConfirmPassphrase("");
+      setNotice(success);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Vault operation failed.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const passphrasesMatch = nextPassphrase.length > 0 && nextPassphrase === confirmPassphrase;
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-4 text-sm">
+      <h2 className="font-semibold text-slate-100">Vault</h2>
+      <p className="mt-1 text-xs text-slate-400">
+        Encrypts messages, notes, summaries, commitments, symbol meanings and the API key on this
+        device with a passphrase. There is no recovery: if you forget the passphrase, the encrypted
+        data is lost.
+      </p>
+
+      {errorMessage && (
+        <div className="mt-3 rounded-lg border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+          {errorMessage}
+        </div>
+      )}
+      {notice && (
+        <div className="mt-3 rounded-lg border border-emerald-500/50 bg-emerald-500/10 px-3 py-2 text-xs text-emerald-200">
+          {notice}
+        </div>
+      )}
+
+      {!config ? (
+        <div className="mt-3 flex flex-col gap-2 text-xs text-slate-300">
+          <input
+            type="password"
+            placeholder="New passphrase (min. 8 characters)"
+            value={nextPassphrase}
+            onChange={(event) => setNextPassphrase(event.target.value)}
+            autoComplete="new-password"
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100"
+          />
+          <input
+            type="password"
+            placeholder="Repeat passphrase"
+            value={confirmPassphrase}
+            onChange={(event) => setConfirmPassphrase(event.target.value)}
+            autoComplete="new-password"
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100"
+          />
+          <label className="flex items-center gap-2">
+            Auto-lock after
+            <input
+              type="number"
+              min={0}
+              value={autoLockMinutes}
+              onChange={(event) => setAutoLockMinutes(Number(event.target.value))}
+              className="w-20 rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100"
+            />
+            minutes of inactivity (0 = never)
+          </label>
+          <button
+            onClick={() =>
+              run(() => enableVault(nextPassphrase, autoLockMinutes), "Vault enabled; your data is now encrypted.")
+            }
+            disabled={isBusy || !passphrasesMatch}
+            className="self-start rounded-lg border border-sky-500/60 bg-sky-500/20 px-4 py-2 font-semibold text-sky-100 hover:bg-sky-500/30 disabled:opacity-60"
+          >
+            Enable vault
+          </button>
+        </div>
+      ) : (
+        <div className="mt-3 flex flex-col gap-4 text-xs text-slate-300">
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2">
+              Auto-lock after
+              <input
+                type="number"
+                min={0}
+                value={autoLockMinutes}
+                onChange={(event) => setAutoLockMinutes(Number(event.target.value))}
+                className="w-20 rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100"
+              />
+              minutes (0 = never)
+            </label>
+            <button
+              onClick={() => run(() => setVaultAutoLock(autoLockMinutes), "Auto-lock updated.")}
+              disabled={isBusy}
+              className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800 disabled:opacity-60"
+            >
+              Save
+            </button>
+            <button
+              onClick={lockVault}
+              className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 hover:bg-slate-800"
+            >
+              Lock now
+            </button>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <p className="font-medium text-slate-200">Change passphrase</p>
+            <input
+              type="password"
+              placeholder="Current passphrase"
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              autoComplete="current-password"
+              className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100"
+            />
+            <input
+              type="password"
+              placeholder="New passphrase (min. 8 characters)"
+              value={nextPassphrase}
+              onChange={(event) => setNextPassphrase(event.target.value)}
+              autoComplete="new-password"
+              className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100"
+            />
+            <input
+              type="password"
+              placeholder="Repeat new passphrase"
+              value={confirmPassphrase}
+              onChange={(event) => setConfirmPassphrase(event.target.value)}
+              autoComplete="new-password"
+              className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-slate-100"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() =>
+                  run(
+                    () => changeVaultPassphrase(passphrase, nextPassphrase),
+                    "Passphrase changed; all data was re-encrypted."
+                  )
+                }
+                disabled={isBusy || !passphrase || !passphrasesMatch}
+                className="rounded-lg border border-sky-500/60 bg-sky-500/20 px-4 py-2 font-semibold text-sky-100 hover:bg-sky-500/30 disabled:opacity-60"
+              >
+                Re-key vault
+              </button>
+              <button
+                onClick={() => {
+                  if (!window.confirm("Turn off the vault and store your data unencrypted?")) return;
+                  void run(() => disableVault(passphrase), "Vault disabled; data is stored unencrypted.");
+                }}
+                disabled={isBusy || !passphrase}
+                className="rounded-lg border border-rose-500/60 bg-rose-500/10 px-4 py-2 text-rose-200 hover:bg-rose-500/20 disabled:opacity-60"
+              >
+                Disable vault
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+// content-packs.ts
+// Installed content packs: the active pack, per-pack settings rows and pack-scoped node queries.
+// Packs are installed/upgraded by seed.ts; the symbol library is shared by all packs.
+
+import { db } from "./db";
+import { DEFAULT_PACK, packNodePrefix, packSettingsKey } from "./node-namespace";
+import type { AppSettings, ContentMeta, NodeDefinition } from "./types";
+
+const listeners = new Set<() => void>();
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function notify() {
+  for (const fn of listeners) fn();
+}
+
+/**
+ * Subscribe to active pack changes (used by the journey map and the pack switcher).
+ */
+export function subscribeActivePack(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export async function listInstalledPacks(): Promise<ContentMeta[]> {
+  const rows = await db.appSettings.where("key").startsWith(packSettingsKey("")).toArray();
+  return rows
+    .map((row) => row.content)
+    .filter((content): content is ContentMeta => Boolean(content))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export async function getActivePackId(): Promise<string> {
+  return (await db.appSettings.get("global"))?.activePackId ?? DEFAULT_PACK.id;
+}
+
+export async function setActivePack(packId: string) {
+  if (!(await getPackSettings(packId))?.content) throw new Error(`Content pack '${packId}' is not installed`);
+  const global = await db.appSettings.get("global");
+  await db.appSettings.put({ ...global, key: "global", activePackId: packId, updatedAt: nowIso() });
+  notify();
+}
+
+export async function getPackSettings(packId: string): Promise<AppSettings | undefined> {
+  return db.appSettings.get(packSettingsKey(packId));
+}
+
+export async function updatePackSettings(packId: string, partial: Partial<AppSettings>) {
+  const key = packSettingsKey(packId);
+  const existing = await db.appSettings.get(key);
+  const next: AppSettings = { ...existing, ...partial, key, updatedAt: nowIso() };
+  await db.appSettings.put(next);
+  return next;
+}
+
+export async function getPackNodes(packId: string): Promise<NodeDefinition[]> {
+  return db.nodeDefinitions.where("id").startsWith(packNodePrefix(packId)).toArray();
+}
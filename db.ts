@@ -13,6 +13,7 @@ import type {
   SymbolOccurrence,
   AppSettings,
 } from "./types";
+import { applySchemaMigrations } from "./migrations";
 
 export class JourneyDB extends Dexie {
   nodeDefinitions!: Table<NodeDefinition, string>;
@@ -31,23 +32,7 @@ export class JourneyDB extends Dexie {
   constructor() {
     super("individuation_journey_db");
 
-    // Notes on indexes:
-    // - Use '&' for unique primary keys.
-    // - Use compound indexes to speed common queries.
-    this.version(1).stores({
-      nodeDefinitions: "&id, type, phase, domain, *tags",
-      userNodeStates: "&nodeId, completedAt, updatedAt",
-
-      threads: "&id, nodeId, updatedAt",
-      messages: "&id, threadId, createdAt, role",
-      threadSummaries: "&threadId, updatedAt",
-
-      symbols: "&id, label, category, createdAt",
-      personalSymbolMeanings: "&symbolId, lastUpdated",
-      symbolOccurrences: "&id, symbolId, messageId, nodeId, createdAt",
-
-      appSettings: "&key, updatedAt",
-    });
+    applySchemaMigrations(this);
   }
 }
 
@@ -0,0 +1,226 @@
+// dependency-rules.ts
+// Prerequisite semantics: the flat `dependencies` list (every node required) plus
+// `dependency_rules` clauses (all / any n-of / soft / phase gate). Status computation,
+// validation, lint and the authoring tools all read prerequisites through these helpers.
+// Helpers tolerate malformed rules because validate-nodes.ts runs them on unchecked files.
+
+import type { ComputedNodeStatus, DependencyRule, NodeDefinition, UnmetDependencyClause } from "./types";
+
+export interface DependencyReference {
+  id: string;
+  path: string;    // relative to the node, e.g. ".dependency_rules[1].any[0]"
+  soft: boolean;
+}
+
+export interface DependencyEdge {
+  to: string;
+  // True when completing `to` is unavoidable (all-of, or an n-of / phase gate that needs every option).
+  required: boolean;
+  path: string;
+}
+
+export interface DependencyEvaluation {
+  ok: boolean;
+  unmet: UnmetDependencyClause[];
+  unmetDependencies: string[];  // pending ids of unmet clauses, deduplicated
+  unmetSoft: string[];
+}
+
+type RuleKind = "all" | "any" | "soft" | "phase";
+
+function ruleKind(rule: DependencyRule): RuleKind | null {
+  if (!rule || typeof rule !== "object") return null;
+  if ("all" in rule) return "all";
+  if ("any" in rule) return "any";
+  if ("soft" in rule) return "soft";
+  if ("phase" in rule) return "phase";
+  return null;
+}
+
+function idList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+function rulesOf(node: NodeDefinition): DependencyRule[] {
+  return Array.isArray(node.dependency_rules) ? node.dependency_rules : [];
+}
+
+function ruleIds(rule: DependencyRule): string[] {
+  switch (ruleKind(rule)) {
+    case "all":
+      return idList((rule as { all: unknown }).all);
+    case "any":
+      return idList((rule as { any: unknown }).any);
+    case "soft":
+      return idList((rule as { soft: unknown }).soft);
+    default:
+      return [];
+  }
+}
+
+function minOf(rule: DependencyRule) {
+  const min = (rule as { min?: unknown }).min;
+  return typeof min === "number" && min >= 1 ? min : 1;
+}
+
+/**
+ * Other nodes of a phase gate's phase (the gated node never counts for itself).
+ */
+export function phaseGateMembers(node: NodeDefinition, phase: string, nodes: NodeDefinition[]) {
+  return nodes.filter((n) => n.phase === phase && n.id !== node.id).map((n) => n.id);
+}
+
+/**
+ * Every node id named in `dependencies` or a dependency rule, with its path (phase gates name no ids).
+ */
+export function referencedNodeIds(node: NodeDefinition): DependencyReference[] {
+  const refs: DependencyReference[] = idList(node.dependencies).map((id, j) => ({
+    id,
+    path: `.dependencies[${j}]`,
+    soft: false,
+  }));
+  rulesOf(node).forEach((rule, k) => {
+    const kind = ruleKind(rule);
+    ruleIds(rule).forEach((id, j) => refs.push({ id, path: `.dependency_rules[${k}].${kind}[${j}]`, soft: kind === "soft" }));
+  });
+  return refs;
+}
+
+/**
+ * Blocking edges (soft rules excluded); phase gates expand to the other nodes of their phase.
+ */
+export function dependencyEdges(node: NodeDefinition, nodes: NodeDefinition[]): DependencyEdge[] {
+  const edges: DependencyEdge[] = idList(node.dependencies).map((to, j) => ({
+    to,
+    required: true,
+    path: `.dependencies[${j}]`,
+  }));
+  rulesOf(node).forEach((rule, k) => {
+    const kind = ruleKind(rule);
+    if (kind === "all" || kind === "any") {
+      const ids = ruleIds(rule);
+      const required = kind === "all" || minOf(rule) >= ids.length;
+      ids.forEach((to, j) => edges.push({ to, required, path: `.dependency_rules[${k}].${kind}[${j}]` }));
+    } else if (kind === "phase") {
+      const members = phaseGateMembers(node, (rule as { phase: string }).phase, nodes);
+      const required = minOf(rule) >= members.length;
+      for (const to of members) edges.push({ to, required, path: `.dependency_rules[${k}].phase` });
+    }
+  });
+  return edges;
+}
+
+/**
+ * Rewrites every node id in `dependencies` and `dependency_rules` (used for pack scoping and renames).
+ */
+export function mapDependencyIds(node: NodeDefinition, fn: (id: string) => string): NodeDefinition {
+  const next: NodeDefinition = { ...node, dependencies: (node.dependencies ?? []).map(fn) };
+  if (node.dependency_rules) {
+    next.dependency_rules = node.dependency_rules.map((rule): DependencyRule => {
+      if ("all" in rule) return { ...rule, all: rule.all.map(fn) };
+      if ("any" in rule) return { ...rule, any: rule.any.map(fn) };
+      if ("soft" in rule) return { ...rule, soft: rule.soft.map(fn) };
+      return rule;
+    });
+  }
+  return next;
+}
+
+/**
+ * Checks every clause against the completed node ids. Soft rules never block but are reported.
+ */
+export function evaluateDependencies(
+  node: NodeDefinition,
+  completed: Set<string>,
+  nodes: NodeDefinition[]
+): DependencyEvaluation {
+  const unmet: UnmetDependencyClause[] = [];
+  const unmetSoft: string[] = [];
+  const check = (
+    kind: UnmetDependencyClause["kind"],
+    ruleIndex: number | null,
+    options: string[],
+    required: number,
+    phase?: UnmetDependencyClause["phase"]
+  ) => {
+    const done = options.filter((id) => completed.has(id)).length;
+    if (done >= required) return;
+    const pending = options.filter((id) => !completed.has(id));
+    unmet.push({ kind, ruleIndex, options, pending, required, completed: done, ...(phase ? { phase } : {}) });
+  };
+
+  const flat = idList(node.dependencies);
+  if (flat.length) check("all", null, flat, flat.length);
+  rulesOf(node).forEach((rule, k) => {
+    switch (ruleKind(rule)) {
+      case "all": {
+        const ids = ruleIds(rule);
+        check("all", k, ids, ids.length);
+        break;
+      }
+      case "any":
+        check("any", k, ruleIds(rule), minOf(rule));
+        break;
+      case "phase": {
+        const phase = (rule as { phase: UnmetDependencyClause["phase"] }).phase;
+        check("phase", k, phaseGateMembers(node, phase!, nodes), minOf(rule), phase);
+        break;
+      }
+      case "soft":
+        for (const id of ruleIds(rule)) if (!completed.has(id) && !unmetSoft.includes(id)) unmetSoft.push(id);
+        break;
+    }
+  });
+
+  return {
+    ok: unmet.length === 0,
+    unmet,
+    unmetDependencies: Array.from(new Set(unmet.filter((c) => c.kind !== "phase").flatMap((c) => c.pending))),
+    unmetSoft,
+  };
+}
+
+/**
+ * Human-readable clause, e.g. "Requires 2 of: A, B, C, D (1 completed)".
+ */
+export function describeUnmetClause(clause: UnmetDependencyClause, label: (id: string) => string = (id) => id) {
+  switch (clause.kind) {
+    case "all":
+      return `Requires ${clause.pending.map(label).join(", ")}`;
+    case "any":
+      return clause.required === 1
+        ? `Requires one of: ${clause.options.map(label).join(", ")}`
+        : `Requires ${clause.required} of: ${clause.options.map(label).join(", ")} (${clause.completed} completed)`;
+    case "phase":
+      return `Requires ${clause.required} completed ${clause.phase} node(s) (${clause.completed} so far)`;
+  }
+}
+
+/**
+ * Shortest chain of unmet prerequisites from a locked node back to a node that can be started now
+ * (BFS over the pending ids of each unmet clause). Returns [lockedNode, …, startableNode],
+ * or [] when the node isn't locked or no startable prerequisite is reachable.
+ */
+export function shortestUnlockChain(nodeId: string, statuses: Map<string, ComputedNodeStatus>): string[] {
+  if (statuses.get(nodeId)?.status !== "locked") return [];
+  const previous = new Map<string, string | null>([[nodeId, null]]);
+  const queue = [nodeId];
+  while (queue.length) {
+    const id = queue.shift()!;
+    const status = statuses.get(id);
+    if (status && status.status !== "locked" && status.status !== "completed") {
+      const chain: string[] = [];
+      for (let at: string | null = id; at != null; at = previous.get(at) ?? null) chain.unshift(at);
+      return chain;
+    }
+    if (status?.status !== "locked") continue;
+    for (const clause of status.unmetClauses ?? []) {
+      for (const next of clause.pending) {
+        if (previous.has(next)) continue;
+        previous.set(next, id);
+        queue.push(next);
+      }
+    }
+  }
+  return [];
+}
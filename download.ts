@@ -0,0 +1,27 @@
+// download.ts
+// Browser file downloads through a temporary <a download> link, shared by the backup,
+// nodes.json and journey map exports.
+
+// Revoking an object URL right after click() can cancel the download in some browsers.
+const REVOKE_DELAY_MS = 1000;
+
+/**
+ * Triggers a browser download of `url` (an object or data URL) as `fileName`.
+ */
+export function downloadUrl(url: string, fileName: string) {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
+
+/**
+ * Triggers a browser download of `blob`; the object URL is revoked once the download has started.
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, fileName);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
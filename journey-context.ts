@@ -0,0 +1,112 @@
+// journey-context.ts
+// Cross-thread memory: a compact digest of what the user worked out in a node's
+// dependency ancestors (UserNodeState notes/summary + ThreadSummary motifs).
+
+import { db } from "./db";
+import { referencedNodeIds } from "./dependency-rules";
+import type { NodeDefinition } from "./types";
+import { openNodeState, openThreadSummary } from "./vault";
+
+export interface JourneyContextEntry {
+  nodeId: string;
+  title: string;
+  phase: NodeDefinition["phase"];
+  depth: number;                 // 1 = direct dependency
+  completedAt: string | null;
+  passes: number;                // completion passes so far
+  revisiting: boolean;
+  personalizedSummary: string;
+  progressNotes: string;
+  motifs: string[];
+}
+
+const MAX_MOTIFS_PER_NODE = 8;
+
+/**
+ * Walks the nodes named in dependencies / dependency_rules (soft ones included) breadth-first;
+ * phase gates name no specific node and are not followed.
+ * Returns ancestor ids with their shortest depth (nearest first, then spiral order).
+ */
+export function getDependencyAncestors(
+  nodeId: string,
+  nodes: NodeDefinition[]
+): Array<{ id: string; depth: number }> {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const depthById = new Map<string, number>();
+  let frontier = [nodeId];
+  let depth = 0;
+  while (frontier.length) {
+    depth += 1;
+    const next: string[] = [];
+    for (const id of frontier) {
+      const node = byId.get(id);
+      for (const { id: dep } of node ? referencedNodeIds(node) : []) {
+        if (dep === nodeId || depthById.has(dep) || !byId.has(dep)) continue;
+        depthById.set(dep, depth);
+        next.push(dep);
+      }
+    }
+    frontier = next;
+  }
+
+  const order = (id: string) => byId.get(id)?.ui_position?.spiral?.order ?? Number.MAX_SAFE_INTEGER;
+  return Array.from(depthById.entries())
+    .map(([id, d]) => ({ id, depth: d }))
+    .sort((a, b) => a.depth - b.depth || order(a.id) - order(b.id));
+}
+
+/**
+ * Builds the digest for the chat system prompt. Ancestors without any notes,
+ * summary or motifs are skipped; the route applies the final token budget.
+ */
+export async function buildJourneyContext(
+  nodeId: string,
+  opts: { maxNodes?: number } = {}
+): Promise<JourneyContextEntry[]> {
+  const maxNodes = opts.maxNodes ?? 12;
+  const nodes = await db.nodeDefinitions.toArray();
+  const ancestors = getDependencyAncestors(nodeId, nodes);
+  if (!ancestors.length) return [];
+
+  const ids = ancestors.map((a) => a.id);
+  const [states, threads] = await Promise.all([
+    db.userNodeStates
+      .bulkGet(ids)
+      .then((rows) => Promise.all(rows.map((r) => (r ? openNodeState(r) : undefined)))),
+    db.threads.where("nodeId").anyOf(ids).toArray(),
+  ]);
+  const summaries = await db.threadSummaries
+    .bulkGet(threads.map((t) => t.id))
+    .then((rows) => Promise.all(rows.map((r) => (r ? openThreadSummary(r) : undefined))));
+
+  const motifsByNode = new Map<string, string[]>();
+  threads.forEach((thread, i) => {
+    const motifs = summaries[i]?.keyMotifs ?? [];
+    if (!motifs.length) return;
+    const list = motifsByNode.get(thread.nodeId) ?? [];
+    for (const motif of motifs) if (!list.includes(motif)) list.push(motif);
+    motifsByNode.set(thread.nodeId, list);
+  });
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const entries: JourneyContextEntry[] = [];
+  ancestors.forEach((ancestor, i) => {
+    const node = byId.get(ancestor.id);
+    const state = states[i];
+    if (!node) return;
+    const entry: JourneyContextEntry = {
+      nodeId: node.id,
+      title: node.title,
+      phase: node.phase,
+      depth: ancestor.depth,
+      completedAt: state?.completedAt ?? null,
+      passes: state?.completions?.length ?? 0,
+      revisiting: Boolean(state?.revisitingSince),
+      personalizedSummary: state?.personalizedSummary?.trim() ?? "",
+      progressNotes: state?.progressNotes?.trim() ?? "",
+      motifs: (motifsByNode.get(node.id) ?? []).slice(0, MAX_MOTIFS_PER_NODE),
+    };
+    if (entry.personalizedSummary || entry.progressNotes || entry.motifs.length) entries.push(entry);
+  });
+  return entries.slice(0, maxNodes);
+}
@@ -0,0 +1,292 @@
+// journey-map-export.ts
+// Printable/shareable exports of the journey map: a standalone SVG string and a high-resolution PNG
+// (rendered on an offscreen Konva stage). Both draw the same scene, built by JourneyMapCanvas from its
+// current node points, status styles, edges and dimming, plus an optional legend and date stamp.
+
+import Konva from "konva";
+import { downloadBlob, downloadUrl } from "./download";
+
+export const EXPORT_NODE_RADIUS = 14;
+export const PNG_PIXEL_RATIO = 3;
+const EXPORT_PADDING = 60;
+const HEADER_HEIGHT = 56;
+const LEGEND_ROW_HEIGHT = 22;
+const TITLE_WIDTH = 160;
+const BACKGROUND = "#020617";
+const ANONYMIZED_TITLE = "Shadow work";
+
+export interface MapExportNode {
+  id: string;
+  x: number;
+  y: number;
+  title: string;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  dash?: number[];
+  text: string;
+  opacity: number;          // status opacity multiplied by dimming
+  passes: number;           // badge shown when > 1
+  shadowInProgress: boolean;  // shadow-phase node without a finished pass; title hidden when anonymizing
+}
+
+export interface MapExportEdge {
+  points: number[];         // x1, y1, x2, y2 (or a polyline for the spiral)
+  stroke: string;
+  strokeWidth: number;
+  dash?: number[];
+  opacity: number;
+  arrow: boolean;
+}
+
+export interface MapExportLegendItem {
+  label: string;
+  fill: string;
+  stroke: string;
+  dash?: number[];
+}
+
+export interface MapExportScene {
+  title: string;
+  summary: string;          // e.g. "7 of 30 nodes completed"
+  nodes: MapExportNode[];
+  edges: MapExportEdge[];
+  legend: MapExportLegendItem[];
+}
+
+export interface MapExportOptions {
+  legend: boolean;
+  dateStamp: boolean;
+  anonymizeShadow: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: MapExportOptions = {
+  legend: true,
+  dateStamp: true,
+  anonymizeShadow: false,
+};
+
+// Where everything goes in the exported image; map coordinates are shifted by (dx, dy).
+interface ExportFrame {
+  width: number;
+  height: number;
+  dx: number;
+  dy: number;
+  legendY: number;
+}
+
+function exportFrame(scene: MapExportScene, options: MapExportOptions): ExportFrame {
+  const xs = scene.nodes.flatMap((n) => [n.x - TITLE_WIDTH / 2, n.x + TITLE_WIDTH / 2]);
+  const ys = scene.nodes.flatMap((n) => [n.y - EXPORT_NODE_RADIUS, n.y + EXPORT_NODE_RADIUS + 24]);
+  const minX = xs.length ? Math.min(...xs) : 0;
+  const maxX = xs.length ? Math.max(...xs) : 0;
+  const minY = ys.length ? Math.min(...ys) : 0;
+  const maxY = ys.length ? Math.max(...ys) : 0;
+  const legendHeight = options.legend ? scene.legend.length * LEGEND_ROW_HEIGHT + EXPORT_PADDING / 2 : 0;
+  const mapHeight = maxY - minY + EXPORT_PADDING * 2;
+  return {
+    width: Math.ceil(Math.max(maxX - minX + EXPORT_PADDING * 2, 480)),
+    height: Math.ceil(HEADER_HEIGHT + mapHeight + legendHeight),
+    dx: EXPORT_PADDING - minX,
+    dy: HEADER_HEIGHT + EXPORT_PADDING - minY,
+    legendY: HEADER_HEIGHT + mapHeight,
+  };
+}
+
+function nodeTitle(node: MapExportNode, options: MapExportOptions) {
+  return options.anonymizeShadow && node.shadowInProgress ? ANONYMIZED_TITLE : node.title;
+}
+
+function subtitle(scene: MapExportScene, options: MapExportOptions, date: Date) {
+  return options.dateStamp ? `${scene.summary} · exported ${date.toLocaleDateString()}` : scene.summary;
+}
+
+export function exportFileName(extension: "png" | "svg", date = new Date()) {
+  return `idividream-journey-map-${date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+function escapeXml(text: string) {
+  return text.replace(/[<>&"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+function svgDash(dash?: number[]) {
+  return dash?.length ? ` stroke-dasharray="${dash.join(" ")}"` : "";
+}
+
+/**
+ * Standalone SVG document (no external fonts or images) of the export scene.
+ */
+export function renderMapSvg(scene: MapExportScene, options: MapExportOptions, date = new Date()): string {
+  const frame = exportFrame(scene, options);
+  const at = (x: number, y: number) => `${(x + frame.dx).toFixed(1)},${(y + frame.dy).toFixed(1)}`;
+  const markerIds = new Map<string, string>();
+  for (const edge of scene.edges) {
+    if (edge.arrow && !markerIds.has(edge.stroke)) markerIds.set(edge.stroke, `arrow-${markerIds.size}`);
+  }
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${frame.width}" height="${frame.height}" viewBox="0 0 ${frame.width} ${frame.height}" font-family="system-ui, sans-serif">`,
+    `<title>${escapeXml(scene.title)}</title>`,
+    "<defs>",
+    ...Array.from(markerIds.entries()).map(
+      ([stroke, id]) =>
+        `<marker id="${id}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="${stroke}"/></marker>`
+    ),
+    "</defs>",
+    `<rect width="100%" height="100%" fill="${BACKGROUND}"/>`,
+    `<text x="${EXPORT_PADDING / 2}" y="26" font-size="18" font-weight="600" fill="#f8fafc">${escapeXml(scene.title)}</text>`,
+    `<text x="${EXPORT_PADDING / 2}" y="44" font-size="11" fill="#94a3b8">${escapeXml(subtitle(scene, options, date))}</text>`,
+  ];
+
+  for (const edge of scene.edges) {
+    const points: string[] = [];
+    for (let i = 0; i + 1 < edge.points.length; i += 2) points.push(at(edge.points[i], edge.points[i + 1]));
+    const marker = edge.arrow ? ` marker-end="url(#${markerIds.get(edge.stroke)})"` : "";
+    parts.push(
+      `<polyline points="${points.join(" ")}" fill="none" stroke="${edge.stroke}" stroke-width="${edge.strokeWidth}" stroke-linecap="round" stroke-linejoin="round" opacity="${edge.opacity}"${svgDash(edge.dash)}${marker}/>`
+    );
+  }
+
+  for (const node of scene.nodes) {
+    const x = node.x + frame.dx;
+    const y = node.y + frame.dy;
+    parts.push(`<g opacity="${node.opacity}">`);
+    parts.push(
+      `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${EXPORT_NODE_RADIUS}" fill="${node.fill}" stroke="${node.stroke}" stroke-width="${node.strokeWidth}"${svgDash(node.dash)}/>`
+    );
+    if (node.passes > 1) {
+      const bx = x + EXPORT_NODE_RADIUS * 0.8;
+      const by = y - EXPORT_NODE_RADIUS * 0.8;
+      parts.push(
+        `<circle cx="${bx.toFixed(1)}" cy="${by.toFixed(1)}" r="7" fill="#0f172a" stroke="#16a34a" stroke-width="1"/>`,
+        `<text x="${bx.toFixed(1)}" y="${(by + 3).toFixed(1)}" font-size="9" text-anchor="middle" fill="#f8fafc">${node.passes}</text>`
+      );
+    }
+    parts.push(
+      `<text x="${x.toFixed(1)}" y="${(y + EXPORT_NODE_RADIUS + 18).toFixed(1)}" font-size="12" text-anchor="middle" fill="${node.text}">${escapeXml(nodeTitle(node, options))}</text>`,
+      "</g>"
+    );
+  }
+
+  if (options.legend) {
+    scene.legend.forEach((item, i) => {
+      const y = frame.legendY + i * LEGEND_ROW_HEIGHT;
+      parts.push(
+        `<circle cx="${EXPORT_PADDING / 2 + 6}" cy="${y + 6}" r="6" fill="${item.fill}" stroke="${item.stroke}" stroke-width="2"${svgDash(item.dash)}/>`,
+        `<text x="${EXPORT_PADDING / 2 + 20}" y="${y + 10}" font-size="11" fill="#cbd5e1">${escapeXml(item.label)}</text>`
+      );
+    });
+  }
+  parts.push("</svg>");
+  return `${parts.join("\n")}\n`;
+}
+
+/**
+ * PNG data URL of the export scene. Drawn on a detached Konva stage so the export covers the whole
+ * map at a fixed resolution, independent of the on-screen pan and zoom. Browser only.
+ */
+export function renderMapPng(
+  scene: MapExportScene,
+  options: MapExportOptions,
+  date = new Date(),
+  pixelRatio = PNG_PIXEL_RATIO
+): string {
+  const frame = exportFrame(scene, options);
+  const stage = new Konva.Stage({ container: document.createElement("div"), width: frame.width, height: frame.height });
+  const layer = new Konva.Layer();
+  stage.add(layer);
+  try {
+    layer.add(new Konva.Rect({ width: frame.width, height: frame.height, fill: BACKGROUND }));
+    layer.add(new Konva.Text({ x: EXPORT_PADDING / 2, y: 10, text: scene.title, fontSize: 18, fontStyle: "600", fill: "#f8fafc" }));
+    layer.add(
+      new Konva.Text({ x: EXPORT_PADDING / 2, y: 34, text: subtitle(scene, options, date), fontSize: 11, fill: "#94a3b8" })
+    );
+
+    const map = new Konva.Group({ x: frame.dx, y: frame.dy });
+    layer.add(map);
+    for (const edge of scene.edges) {
+      const config = {
+        points: edge.points,
+        stroke: edge.stroke,
+        strokeWidth: edge.strokeWidth,
+        dash: edge.dash,
+        opacity: edge.opacity,
+        lineCap: "round" as const,
+        lineJoin: "round" as const,
+      };
+      map.add(edge.arrow ? new Konva.Arrow({ ...config, fill: edge.stroke, pointerLength: 6, pointerWidth: 5 }) : new Konva.Line(config));
+    }
+    for (const node of scene.nodes) {
+      const group = new Konva.Group({ x: node.x, y: node.y, opacity: node.opacity });
+      group.add(
+        new Konva.Circle({
+          radius: EXPORT_NODE_RADIUS,
+          fill: node.fill,
+          stroke: node.stroke,
+          strokeWidth: node.strokeWidth,
+          dash: node.dash,
+        })
+      );
+      if (node.passes > 1) {
+        const badge = new Konva.Group({ x: EXPORT_NODE_RADIUS * 0.8, y: -EXPORT_NODE_RADIUS * 0.8 });
+        badge.add(new Konva.Circle({ radius: 7, fill: "#0f172a", stroke: "#16a34a", strokeWidth: 1 }));
+        badge.add(
+          new Konva.Text({
+            text: String(node.passes),
+            fontSize: 9,
+            fill: "#f8fafc",
+            width: 14,
+            height: 14,
+            offsetX: 7,
+            offsetY: 7,
+            align: "center",
+            verticalAlign: "middle",
+          })
+        );
+        group.add(badge);
+      }
+      group.add(
+        new Konva.Text({
+          text: nodeTitle(node, options),
+          y: EXPORT_NODE_RADIUS + 8,
+          fontSize: 12,
+          fill: node.text,
+          width: TITLE_WIDTH,
+          offsetX: TITLE_WIDTH / 2,
+          align: "center",
+        })
+      );
+      map.add(group);
+    }
+
+    if (options.legend) {
+      scene.legend.forEach((item, i) => {
+        const y = frame.legendY + i * LEGEND_ROW_HEIGHT;
+        layer.add(
+          new Konva.Circle({
+            x: EXPORT_PADDING / 2 + 6,
+            y: y + 6,
+            radius: 6,
+            fill: item.fill,
+            stroke: item.stroke,
+            strokeWidth: 2,
+            dash: item.dash,
+          })
+        );
+        layer.add(new Konva.Text({ x: EXPORT_PADDING / 2 + 20, y: y + 1, text: item.label, fontSize: 11, fill: "#cbd5e1" }));
+      });
+    }
+    return stage.toDataURL({ mimeType: "image/png", pixelRatio });
+  } finally {
+    stage.destroy();
+  }
+}
+
+/**
+ * Triggers a browser download of an export (a data URL or SVG markup).
+ */
+export function downloadMapExport(content: string, extension: "png" | "svg", date = new Date()) {
+  const fileName = exportFileName(extension, date);
+  if (extension === "png") downloadUrl(content, fileName);
+  else downloadBlob(new Blob([content], { type: "image/svg+xml" }), fileName);
+}
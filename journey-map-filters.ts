@@ -0,0 +1,67 @@
+// journey-map-filters.ts
+// Search, filters and focus mode for the journey map: which nodes stay highlighted
+// (everything else is dimmed) and which nodes surround a focused node.
+
+import { referencedNodeIds } from "./dependency-rules";
+import type { NodeDefinition, NodeDomain, NodePhase, NodeStatus, NodeType } from "./types";
+
+export interface JourneyMapFilters {
+  query: string;                // matched against title, tags and description
+  phase: NodePhase | null;
+  domain: NodeDomain | null;
+  type: NodeType | null;
+  status: NodeStatus | null;
+}
+
+export const EMPTY_MAP_FILTERS: JourneyMapFilters = {
+  query: "",
+  phase: null,
+  domain: null,
+  type: null,
+  status: null,
+};
+
+export function hasActiveFilters(filters: JourneyMapFilters) {
+  return Boolean(filters.query.trim() || filters.phase || filters.domain || filters.type || filters.status);
+}
+
+export function nodeMatchesFilters(node: NodeDefinition, status: NodeStatus, filters: JourneyMapFilters) {
+  if (filters.phase && node.phase !== filters.phase) return false;
+  if (filters.domain && node.domain !== filters.domain) return false;
+  if (filters.type && node.type !== filters.type) return false;
+  if (filters.status && status !== filters.status) return false;
+  const q = filters.query.trim().toLowerCase();
+  if (!q) return true;
+  return (
+    node.title.toLowerCase().includes(q) ||
+    node.description.toLowerCase().includes(q) ||
+    (node.tags ?? []).some((tag) => tag.toLowerCase().includes(q))
+  );
+}
+
+/**
+ * The focused node with its transitive dependency ancestors and dependents
+ * (ids named in dependencies / dependency_rules; phase gates are not followed).
+ */
+export function focusNeighborhood(nodeId: string, nodes: NodeDefinition[]): Set<string> {
+  const upstream = new Map<string, string[]>();
+  const downstream = new Map<string, string[]>();
+  for (const n of nodes) {
+    const ids = Array.from(new Set(referencedNodeIds(n).map((ref) => ref.id)));
+    upstream.set(n.id, ids);
+    for (const id of ids) downstream.set(id, [...(downstream.get(id) ?? []), n.id]);
+  }
+  const result = new Set([nodeId]);
+  for (const edges of [upstream, downstream]) {
+    const seen = new Set([nodeId]);
+    const queue = [...(edges.get(nodeId) ?? [])];
+    while (queue.length) {
+      const id = queue.shift()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      result.add(id);
+      queue.push(...(edges.get(id) ?? []));
+    }
+  }
+  return result;
+}
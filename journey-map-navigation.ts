@@ -0,0 +1,64 @@
+// journey-map-navigation.ts
+// Keyboard traversal of the journey map: spiral nodes in spiral order, then the tree depth-first
+// (children by x). Arrow keys walk that order; Up/Down also follow tree parent/child links.
+
+import type { NodeDefinition } from "./types";
+
+export type MapNavigationKey = "next" | "previous" | "parent" | "child" | "first" | "last";
+
+export function mapTraversalOrder(nodes: NodeDefinition[]): string[] {
+  const spiral = nodes
+    .filter((n) => n.ui_position?.spiral)
+    .sort((a, b) => a.ui_position.spiral!.order - b.ui_position.spiral!.order)
+    .map((n) => n.id);
+
+  const tree = nodes.filter((n) => n.ui_position?.tree && !n.ui_position.spiral);
+  const ids = new Set(tree.map((n) => n.id));
+  const children = new Map<string | null, NodeDefinition[]>();
+  for (const n of tree) {
+    const parent = n.ui_position.tree!.parent_id;
+    // Parents outside the tree (or missing) make the node a root.
+    const key = parent && ids.has(parent) ? parent : null;
+    children.set(key, [...(children.get(key) ?? []), n]);
+  }
+  const ordered: string[] = [];
+  const visit = (parent: string | null) => {
+    const list = (children.get(parent) ?? []).sort((a, b) => a.ui_position.tree!.x - b.ui_position.tree!.x);
+    for (const n of list) {
+      if (ordered.includes(n.id)) continue;
+      ordered.push(n.id);
+      visit(n.id);
+    }
+  };
+  visit(null);
+  // Nodes only reachable through a parent cycle still get a place at the end.
+  for (const n of tree) if (!ordered.includes(n.id)) ordered.push(n.id);
+
+  return [...spiral, ...ordered];
+}
+
+/**
+ * The node a navigation key moves to from `currentId` (the first node when nothing is focused yet).
+ * Returns null when there is nowhere to go.
+ */
+export function navigateMap(
+  currentId: string | null,
+  key: MapNavigationKey,
+  nodes: NodeDefinition[],
+  order: string[] = mapTraversalOrder(nodes)
+): string | null {
+  if (!order.length) return null;
+  const index = currentId ? order.indexOf(currentId) : -1;
+  if (index < 0 || key === "first") return order[0];
+  if (key === "last") return order[order.length - 1];
+  if (key === "next") return order[Math.min(order.length - 1, index + 1)];
+  if (key === "previous") return order[Math.max(0, index - 1)];
+
+  const current = nodes.find((n) => n.id === currentId);
+  if (key === "parent") {
+    const parent = current?.ui_position?.tree?.parent_id;
+    return parent && order.includes(parent) ? parent : null;
+  }
+  const child = order.find((id) => nodes.find((n) => n.id === id)?.ui_position?.tree?.parent_id === currentId);
+  return child ?? null;
+}
@@ -1,6 +1,8 @@
 // journey.ts
-// Query helpers + computed node statuses + "next node" recommendation.
+// Query helpers + computed node statuses + "next node" recommendation (scored in recommendations.ts).
 // Status is derived (completed/locked/available/next) from NodeDefinitions + UserNodeState.
+// Nodes can be completed in several passes; a revisited node is open again but still counts as
+// completed for its dependents.
 
 import { db } from "./db";
 import type {
@@ -8,13 +10,40 @@ import type {
   ComputedNodeStatus,
   NodeStatus,
   AppSettings,
+  CompletionAnswer,
+  NodeCompletionPass,
+  NodeRecommendation,
+  UserNodeState,
 } from "./types";
+import { openSettings, sealNodeState } from "./vault";
+import { getActivePackId, getPackNodes, getPackSettings, updatePackSettings } from "./content-packs";
+import { localNodeId, packIdOf, packNodePrefix } from "./node-namespace";
+import { normalizeCompletions } from "./node-state";
+import { dependencyEdges, describeUnmetClause, evaluateDependencies } from "./dependency-rules";
+import {
+  buildRecommendationContext,
+  rankNodeRecommendations,
+  type RecommendationWeights,
+} from "./recommendations";
+
+// Available nodes that get a ranked recommendation (shown in the map tooltip).
+const RECOMMENDATION_LIMIT = 3;
 
 function nowIso() {
   return new Date().toISOString();
 }
 
-export async function getAllNodes(): Promise<NodeDefinition[]> {
+/**
+ * Nodes of one content pack (the active pack by default).
+ */
+export async function getAllNodes(packId?: string): Promise<NodeDefinition[]> {
+  return getPackNodes(packId ?? (await getActivePackId()));
+}
+
+/**
+ * Nodes of every installed pack (e.g. for the shared symbol library).
+ */
+export async function getInstalledNodes(): Promise<NodeDefinition[]> {
   return db.nodeDefinitions.toArray();
 }
 
@@ -54,123 +83,220 @@ export async function getCompletedNodeIds(): Promise<Set<string>> {
   return completed;
 }
 
+// Row fields after the completion history changed (completedAt mirrors the latest pass).
+function withCompletions(row: UserNodeState, completions: NodeCompletionPass[], timestamp: string): UserNodeState {
+  return {
+    ...row,
+    completions,
+    completedAt: completions.length ? completions[completions.length - 1].completedAt : null,
+    revisitingSince: null,
+    updatedAt: timestamp,
+  };
+}
+
+/**
+ * completed=true records a new pass (closing a revisit); completed=false undoes the latest pass,
+ * so earlier passes are kept and the node only becomes incomplete when none are left.
+ */
 export async function markNodeCompleted(nodeId: string, completed = true) {
   const row = await db.userNodeStates.get(nodeId);
   if (!row) throw new Error(`Missing UserNodeState for ${nodeId}`);
+  const passes = normalizeCompletions(row.completions);
+  const timestamp = nowIso();
+  await db.userNodeStates.put(
+    withCompletions(
+      row,
+      completed ? [...passes, { pass: passes.length + 1, completedAt: timestamp }] : passes.slice(0, -1),
+      timestamp
+    )
+  );
+}
+
+/**
+ * Reopens a completed node for another pass (reopen=false cancels the revisit). The history is
+ * kept and dependents stay unlocked.
+ */
+export async function revisitNode(nodeId: string, reopen = true) {
+  const row = await db.userNodeStates.get(nodeId);
+  if (!row) throw new Error(`Missing UserNodeState for ${nodeId}`);
+  if (reopen && !row.completedAt) throw new Error("Only completed nodes can be revisited.");
   await db.userNodeStates.put({
     ...row,
-    completedAt: completed ? nowIso() : null,
+    revisitingSince: reopen ? nowIso() : null,
     updatedAt: nowIso(),
   });
 }
 
-export async function getGlobalSettings(): Promise<AppSettings | undefined> {
-  return db.appSettings.get("global");
+/**
+ * True when completing the node should go through the completion dialog.
+ */
+export function nodeHasCompletionFlow(node: NodeDefinition) {
+  return Boolean(node.personalization_prompts?.length || node.completion_checklist?.length);
 }
 
-export async function setCurrentNode(nodeId: string) {
+/**
+ * Guided completion: every personalization prompt needs a non-empty answer and every
+ * completion_checklist item must be checked. Answers are stored (latest pass), then a pass is recorded.
+ */
+export async function completeNodeWithAnswers(
+  nodeId: string,
+  answers: Record<string, string>,
+  checkedItems: string[]
+) {
+  const node = await db.nodeDefinitions.get(nodeId);
+  if (!node) throw new Error(`Unknown node ${nodeId}`);
+  const row = await db.userNodeStates.get(nodeId);
+  if (!row) throw new Error(`Missing UserNodeState for ${nodeId}`);
+
+  const prompts = node.personalization_prompts ?? [];
+  const unanswered = prompts.filter((p) => !answers[p]?.trim());
+  if (unanswered.length) throw new Error(`Answer all prompts first (${unanswered.length} left).`);
+  const checked = new Set(checkedItems);
+  const unchecked = (node.completion_checklist ?? []).filter((item) => !checked.has(item));
+  if (unchecked.length) throw new Error(`Complete the checklist first (${unchecked.length} left).`);
+
+  const timestamp = nowIso();
+  const completionAnswers: CompletionAnswer[] = prompts.map((prompt) => ({
+    prompt,
+    answer: answers[prompt].trim(),
+    answeredAt: timestamp,
+  }));
+  const passes = normalizeCompletions(row.completions);
+  await db.userNodeStates.put(
+    await sealNodeState({
+      ...withCompletions(row, [...passes, { pass: passes.length + 1, completedAt: timestamp }], timestamp),
+      completionAnswers,
+      completionChecklist: (node.completion_checklist ?? []).filter((item) => checked.has(item)),
+    })
+  );
+}
+
+/**
+ * Completed nodes that depend (directly or transitively) on nodeId through a blocking clause
+ * (dependencies, all/any rules or a phase gate). Used to warn before un-completing a node.
+ */
+export async function getCompletedDependents(nodeId: string): Promise<NodeDefinition[]> {
+  const nodes = await getAllNodes(packIdOf(nodeId));
+  const completed = await getCompletedNodeIds();
+  const dependents = new Map<string, string[]>();
+  for (const n of nodes) {
+    for (const { to } of dependencyEdges(n, nodes)) {
+      const list = dependents.get(to) ?? [];
+      if (!list.includes(n.id)) list.push(n.id);
+      dependents.set(to, list);
+    }
+  }
+  const seen = new Set<string>();
+  const queue = [...(dependents.get(nodeId) ?? [])];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (seen.has(id) || id === nodeId) continue;
+    seen.add(id);
+    queue.push(...(dependents.get(id) ?? []));
+  }
+  return nodes.filter((n) => seen.has(n.id) && completed.has(n.id));
+}
+
+/**
+ * The "global" settings row with the API key opened (decrypted when vault mode is on).
+ */
+export async function getGlobalSettings(): Promise<AppSettings | undefined> {
   const s = await db.appSettings.get("global");
-  const defaultOpenAiApiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-  await db.appSettings.put({
-    key: "global",
-    currentNodeId: nodeId,
-    currentSpiralOrder: s?.currentSpiralOrder,
-    openAiApiKey: s?.openAiApiKey ?? defaultOpenAiApiKey,
-    modelChat: s?.modelChat ?? "gpt-5-nano",
-    modelExtract: s?.modelExtract ?? "gpt-5-nano",
-    modelSummarize: s?.modelSummarize ?? "gpt-5-nano",
-    updatedAt: nowIso(),
-  });
+  return s ? openSettings(s) : undefined;
 }
 
-function depsMet(node: NodeDefinition, completed: Set<string>) {
-  const unmet = (node.dependencies ?? []).filter((d) => !completed.has(d));
-  return { ok: unmet.length === 0, unmet };
+/**
+ * Sets where the user "is" in the node's content pack.
+ */
+export async function setCurrentNode(nodeId: string) {
+  await updatePackSettings(packIdOf(nodeId), { currentNodeId: nodeId });
 }
 
 export async function computeNodeStatuses(opts?: {
-  preferNextBySpiral?: boolean;
+  preferNextBySpiral?: boolean;   // false disables the spiral-order signal
+  packId?: string;                // defaults to the active pack
+  weights?: RecommendationWeights;
+  recommendationLimit?: number;   // how many available nodes get a ranked recommendation
 }): Promise<Map<string, ComputedNodeStatus>> {
   const preferNextBySpiral = opts?.preferNextBySpiral ?? true;
+  const packId = opts?.packId ?? (await getActivePackId());
 
-  const nodes = await getAllNodes();
-  const completed = await getCompletedNodeIds();
-  const settings = await getGlobalSettings();
+  const nodes = await getAllNodes(packId);
+  const states = new Map(
+    (await db.userNodeStates.where("nodeId").startsWith(packNodePrefix(packId)).toArray()).map((s) => [s.nodeId, s])
+  );
+  // Revisited nodes stay in `completed`, so their dependents remain unlocked.
+  const completed = new Set(Array.from(states.values()).filter((s) => s.completedAt).map((s) => s.nodeId));
+  const settings = await getPackSettings(packId);
 
   const statusMap = new Map<string, ComputedNodeStatus>();
 
   // First pass: completed/locked/available
   for (const n of nodes) {
-    if (completed.has(n.id)) {
-      statusMap.set(n.id, { nodeId: n.id, status: "completed" });
+    const state = states.get(n.id);
+    const passes = normalizeCompletions(state?.completions).length;
+    const revisiting = completed.has(n.id) && Boolean(state?.revisitingSince);
+    const history = { ...(passes ? { passes } : {}), ...(revisiting ? { revisiting } : {}) };
+    if (completed.has(n.id) && !revisiting) {
+      statusMap.set(n.id, { nodeId: n.id, status: "completed", ...history });
       continue;
     }
-    const { ok, unmet } = depsMet(n, completed);
-    if (!ok) statusMap.set(n.id, { nodeId: n.id, status: "locked", unmetDependencies: unmet });
-    else statusMap.set(n.id, { nodeId: n.id, status: "available" });
+    const { ok, unmet, unmetDependencies, unmetSoft } = evaluateDependencies(n, completed, nodes);
+    const soft = unmetSoft.length ? { unmetSoftDependencies: unmetSoft } : {};
+    if (!ok) {
+      statusMap.set(n.id, { nodeId: n.id, status: "locked", unmetDependencies, unmetClauses: unmet, ...soft, ...history });
+    } else {
+      statusMap.set(n.id, { nodeId: n.id, status: "available", ...soft, ...history });
+    }
   }
 
-  // Second pass: compute a recommended "next"
-  const nextNodeId = computeRecommendedNextNodeId(nodes, statusMap, settings, { preferNextBySpiral });
-  if (nextNodeId) {
-    const entry = statusMap.get(nextNodeId);
-    if (entry && entry.status === "available") {
-      statusMap.set(nextNodeId, { ...entry, status: "next", recommendedReason: "recommended_next" });
-    }
+  // Second pass: rank available nodes; the top one becomes "next"
+  const candidates = nodes.filter((n) => statusMap.get(n.id)?.status === "available");
+  if (!candidates.length) return statusMap;
+  const ctx = await buildRecommendationContext(packId, nodes, statusMap, settings);
+  const ranked = rankNodeRecommendations(candidates, ctx, {
+    weights: preferNextBySpiral ? opts?.weights : { ...opts?.weights, "spiral-order": 0 },
+    limit: opts?.recommendationLimit ?? RECOMMENDATION_LIMIT,
+  });
+  for (const recommendation of ranked) {
+    const entry = statusMap.get(recommendation.nodeId)!;
+    const isNext = recommendation.rank === 1;
+    statusMap.set(recommendation.nodeId, {
+      ...entry,
+      status: isNext ? "next" : entry.status,
+      recommendedReason: isNext ? recommendation.signals[0]?.reason ?? "First available node" : undefined,
+      recommendation,
+    });
   }
 
   return statusMap;
 }
 
-export function computeRecommendedNextNodeId(
-  nodes: NodeDefinition[],
-  statusMap: Map<string, ComputedNodeStatus>,
-  settings?: { currentNodeId?: string; currentSpiralOrder?: number },
-  opts?: { preferNextBySpiral?: boolean }
-): string | null {
-  const preferNextBySpiral = opts?.preferNextBySpiral ?? true;
-
-  const available = nodes.filter((n) => statusMap.get(n.id)?.status === "available");
-
-  if (!available.length) return null;
-
-  // If spiral preference: choose the next spiral node (lowest order) whose deps are met.
-  if (preferNextBySpiral) {
-    const spirals = available
-      .filter((n) => n.type === "spiral" && n.ui_position?.spiral)
-      .sort((a, b) => (a.ui_position!.spiral!.order - b.ui_position!.spiral!.order));
-
-    const currentOrder = settings?.currentSpiralOrder ?? null;
-
-    if (currentOrder != null) {
-      const after = spirals.find((n) => n.ui_position!.spiral!.order >= currentOrder);
-      if (after) return after.id;
-    }
-    if (spirals.length) return spirals[0].id;
-  }
-
-  // Fallback: choose the available node that shares the most tags with the current node.
-  const currentId = settings?.currentNodeId ?? null;
-  const current = currentId ? nodes.find((n) => n.id === currentId) : null;
-  if (!current) return available[0].id;
-
-  const currentTags = new Set(current.tags ?? []);
-  const scored = available
-    .map((n) => {
-      const overlap = (n.tags ?? []).reduce((acc, t) => acc + (currentTags.has(t) ? 1 : 0), 0);
-      return { id: n.id, overlap, isSpiral: n.type === "spiral" };
-    })
-    .sort((a, b) => (b.overlap - a.overlap) || (b.isSpiral ? 1 : -1));
-
-  return scored[0]?.id ?? available[0].id;
+/**
+ * Ranked top-N next-node recommendations with per-signal breakdowns.
+ */
+export async function getNextNodeRecommendations(opts?: {
+  packId?: string;
+  weights?: RecommendationWeights;
+  limit?: number;
+}): Promise<NodeRecommendation[]> {
+  const statuses = await computeNodeStatuses({
+    packId: opts?.packId,
+    weights: opts?.weights,
+    recommendationLimit: opts?.limit,
+  });
+  return Array.from(statuses.values())
+    .flatMap((s) => (s.recommendation ? [s.recommendation] : []))
+    .sort((a, b) => a.rank - b.rank);
 }
 
 /**
  * A convenience helper for UI: returns node lists grouped by status.
  */
-export async function getNodesGroupedByStatus() {
-  const nodes = await getAllNodes();
-  const statuses = await computeNodeStatuses();
+export async function getNodesGroupedByStatus(packId?: string) {
+  const id = packId ?? (await getActivePackId());
+  const nodes = await getAllNodes(id);
+  const statuses = await computeNodeStatuses({ packId: id });
   const groups: Record<NodeStatus, NodeDefinition[]> = {
     completed: [],
     locked: [],
@@ -185,11 +311,13 @@ export async function getNodesGroupedByStatus() {
 }
 
 /**
- * For "why locked" tooltip.
+ * For "why locked" tooltip: one sentence per unmet clause.
  */
 export async function getLockReason(nodeId: string): Promise<string | null> {
-  const statuses = await computeNodeStatuses();
+  const statuses = await computeNodeStatuses({ packId: packIdOf(nodeId) });
   const s = statuses.get(nodeId);
   if (!s || s.status !== "locked") return null;
-  return s.unmetDependencies?.length ? `Requires: ${s.unmetDependencies.join(", ")}` : "Locked";
+  return s.unmetClauses?.length
+    ? s.unmetClauses.map((clause) => describeUnmetClause(clause, localNodeId)).join("; ")
+    : "Locked";
 }
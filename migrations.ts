@@ -0,0 +1,194 @@
+// migrations.ts
+// Versioned Dexie schema: each entry is one db.version(n) step, optionally with a data upgrade.
+// To change the schema, append a new entry (never edit a shipped one); Dexie runs every
+// upgrade between the user's installed version and the latest in order.
+
+import type Dexie from "dexie";
+import type { Transaction } from "dexie";
+import {
+  DEFAULT_PACK,
+  DEFAULT_PACK_URL,
+  packSettingsKey,
+  scopeNodeDefinition,
+  scopeNodeId,
+} from "./node-namespace";
+import type { AppSettings, NodeDefinition, SymbolOccurrence, Thread, UserNodeState } from "./types";
+
+// Table rows by table name, as read in an upgrade transaction or found in a backup file.
+export type MigrationTables = Record<string, Record<string, unknown>[]>;
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  // Only tables whose indexes change need to be listed; null deletes a table.
+  stores: Record<string, string | null>;
+  upgrade?: (tx: Transaction) => Promise<void>;
+  // Pure row rewrite for the listed tables. Runs as the Dexie upgrade and is also applied
+  // to backups exported at an older version (see upgradeBackupTables).
+  upgradeRows?: { tables: string[]; rewrite: (tables: MigrationTables) => MigrationTables };
+}
+
+/**
+ * Moves pre-content-pack data into the default pack: node ids are scoped in nodeDefinitions,
+ * userNodeStates, threads and symbolOccurrences, and the global currentNodeId plus the old
+ * "content" row become the default pack's settings row.
+ */
+function scopeLegacyRows(tables: MigrationTables): MigrationTables {
+  const scope = (id: string) => scopeNodeId(DEFAULT_PACK.id, id);
+  const nodes = (tables.nodeDefinitions ?? []) as unknown as NodeDefinition[];
+  const states = (tables.userNodeStates ?? []) as unknown as UserNodeState[];
+  const threads = (tables.threads ?? []) as unknown as Thread[];
+  const occurrences = (tables.symbolOccurrences ?? []) as unknown as SymbolOccurrence[];
+  const settings = (tables.appSettings ?? []) as unknown as AppSettings[];
+
+  const global = settings.find((row) => row.key === "global");
+  const content = settings.find((row) => row.key === "content")?.content;
+  const nextSettings: AppSettings[] = settings.filter((row) => row.key !== "global" && row.key !== "content");
+  if (global) {
+    const next: AppSettings = { ...global, activePackId: global.activePackId ?? DEFAULT_PACK.id };
+    delete next.currentNodeId;
+    delete next.currentSpiralOrder;
+    nextSettings.push(next);
+  }
+  if (nodes.length || content || global?.currentNodeId) {
+    nextSettings.push({
+      key: packSettingsKey(DEFAULT_PACK.id),
+      currentNodeId: global?.currentNodeId ? scope(global.currentNodeId) : undefined,
+      currentSpiralOrder: global?.currentSpiralOrder,
+      content: content && {
+        ...content,
+        packId: DEFAULT_PACK.id,
+        title: DEFAULT_PACK.title,
+        sourceUrl: DEFAULT_PACK_URL,
+        orphanedNodeIds: (content.orphanedNodeIds ?? []).map(scope),
+      },
+      updatedAt: global?.updatedAt ?? content?.appliedAt ?? new Date().toISOString(),
+    });
+  }
+
+  return {
+    ...tables,
+    nodeDefinitions: nodes.map((n) => scopeNodeDefinition(DEFAULT_PACK.id, n)),
+    userNodeStates: states.map((s) => ({ ...s, nodeId: scope(s.nodeId) })),
+    threads: threads.map((t) => ({ ...t, nodeId: scope(t.nodeId) })),
+    symbolOccurrences: occurrences.map((o) => ({ ...o, nodeId: o.nodeId ? scope(o.nodeId) : o.nodeId })),
+    appSettings: nextSettings,
+  } as unknown as MigrationTables;
+}
+
+/**
+ * Turns the single UserNodeState.completedAt into the first entry of the completion history.
+ */
+function seedCompletionHistory(tables: MigrationTables): MigrationTables {
+  const states = (tables.userNodeStates ?? []) as unknown as UserNodeState[];
+  return {
+    ...tables,
+    userNodeStates: states.map((s) =>
+      Array.isArray(s.completions) || !s.completedAt
+        ? { ...s, completions: s.completions ?? [] }
+        : { ...s, completions: [{ pass: 1, completedAt: s.completedAt }] }
+    ),
+  } as unknown as MigrationTables;
+}
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: "Initial schema",
+    // Notes on indexes:
+    // - Use '&' for unique primary keys.
+    // - Use compound indexes to speed common queries.
+    stores: {
+      nodeDefinitions: "&id, type, phase, domain, *tags",
+      userNodeStates: "&nodeId, completedAt, updatedAt",
+
+      threads: "&id, nodeId, updatedAt",
+      messages: "&id, threadId, createdAt, role",
+      threadSummaries: "&threadId, updatedAt",
+
+      symbols: "&id, label, category, createdAt",
+      personalSymbolMeanings: "&symbolId, lastUpdated",
+      symbolOccurrences: "&id, symbolId, messageId, nodeId, createdAt",
+
+      appSettings: "&key, updatedAt",
+    },
+  },
+  {
+    version: 2,
+    description: "Normalize legacy UserNodeState.commitments ({} -> [])",
+    stores: {},
+    upgrade: async (tx) => {
+      await tx
+        .table("userNodeStates")
+        .toCollection()
+        .modify((row) => {
+          if (!Array.isArray(row.commitments)) row.commitments = [];
+        });
+    },
+  },
+  {
+    version: 3,
+    description: "Content packs: scope node ids as <packId>:<nodeId> and move currentNodeId to the pack row",
+    stores: {},
+    upgradeRows: {
+      tables: ["nodeDefinitions", "userNodeStates", "threads", "symbolOccurrences", "appSettings"],
+      rewrite: scopeLegacyRows,
+    },
+  },
+  {
+    version: 4,
+    description: "Completion passes: move UserNodeState.completedAt into a completions history",
+    stores: {},
+    upgradeRows: {
+      tables: ["userNodeStates"],
+      rewrite: seedCompletionHistory,
+    },
+  },
+  {
+    version: 5,
+    description: "Symbol aliases: index SymbolDef.aliases so merged symbols resolve to their target",
+    stores: {
+      symbols: "&id, label, category, createdAt, *aliases",
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+/**
+ * Declares every migration on the Dexie instance (called from the JourneyDB constructor).
+ */
+export function applySchemaMigrations(db: Dexie, migrations = SCHEMA_MIGRATIONS) {
+  let previous = 0;
+  for (const m of migrations) {
+    if (m.version <= previous) {
+      throw new Error(`Schema migrations must have increasing versions (got ${m.version} after ${previous})`);
+    }
+    previous = m.version;
+    const version = db.version(m.version).stores(m.stores);
+    const upgrade = m.upgrade ?? (m.upgradeRows && rowUpgrade(m.upgradeRows));
+    if (upgrade) version.upgrade(upgrade);
+  }
+}
+
+// Dexie upgrade for an upgradeRows migration: read the tables, rewrite, replace their contents.
+function rowUpgrade({ tables, rewrite }: NonNullable<SchemaMigration["upgradeRows"]>) {
+  return async (tx: Transaction) => {
+    const rows: MigrationTables = {};
+    for (const name of tables) rows[name] = await tx.table(name).toArray();
+    const next = rewrite(rows);
+    for (const name of tables) {
+      await tx.table(name).clear();
+      await tx.table(name).bulkAdd(next[name] ?? []);
+    }
+  };
+}
+
+/**
+ * Applies every upgradeRows rewrite newer than fromVersion (the dbVersion a backup was exported at).
+ */
+export function upgradeBackupTables(tables: MigrationTables, fromVersion: number, migrations = SCHEMA_MIGRATIONS) {
+  return migrations
+    .filter((m) => m.version > fromVersion && m.upgradeRows)
+    .reduce((acc, m) => m.upgradeRows!.rewrite(acc), tables);
+}
@@ -0,0 +1,58 @@
+// node-authoring.ts
+// In-app authoring for nodes.json: helpers to create, rename and export nodes.
+// Validation is shared with the seeder and CLI (validate-nodes.ts).
+
+import { mapDependencyIds } from "./dependency-rules";
+import { downloadBlob } from "./download";
+import { OUTPUT_FORMAT_HEADING } from "./node-lint";
+import type { NodeDefinition, NodesFile } from "./types";
+
+/**
+ * A new spiral node with an unused id, placed after the last spiral order.
+ */
+export function createBlankNode(nodes: NodeDefinition[]): NodeDefinition {
+  const ids = new Set(nodes.map((n) => n.id));
+  let index = nodes.length + 1;
+  while (ids.has(`new_node_${index}`)) index++;
+  const lastOrder = Math.max(0, ...nodes.map((n) => n.ui_position?.spiral?.order ?? 0));
+  return {
+    id: `new_node_${index}`,
+    title: "New node",
+    type: "spiral",
+    phase: "meta",
+    domain: "meta",
+    description: "Describe what this node is about.",
+    dependencies: [],
+    tags: [],
+    prompt_template: `You are a reflective guide.\n\n${OUTPUT_FORMAT_HEADING}\n1) `,
+    ui_position: { spiral: { theta: 0, radius: 100, order: lastOrder + 1 } },
+    version: 1,
+  };
+}
+
+/**
+ * Renames a node id and rewrites dependencies, dependency rules and tree parents that pointed at it.
+ */
+export function renameNodeId(nodes: NodeDefinition[], fromId: string, toId: string): NodeDefinition[] {
+  return nodes.map((n) => {
+    const next: NodeDefinition = {
+      ...mapDependencyIds(n, (d) => (d === fromId ? toId : d)),
+      id: n.id === fromId ? toId : n.id,
+    };
+    if (n.ui_position?.tree?.parent_id === fromId) {
+      next.ui_position = { ...n.ui_position, tree: { ...n.ui_position.tree, parent_id: toId } };
+    }
+    return next;
+  });
+}
+
+/**
+ * Triggers a browser download of the edited nodes.json (generated_at stamped now).
+ */
+export function downloadNodesFile(file: NodesFile) {
+  const output: NodesFile = {
+    ...file,
+    generated_at: new Date().toISOString().replace(/\.\d{3}Z$/, "Z"),
+  };
+  downloadBlob(new Blob([JSON.stringify(output, null, 2)], { type: "application/json" }), "nodes.json");
+}
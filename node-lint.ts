@@ -0,0 +1,258 @@
+// node-lint.ts
+// Semantic lint rules for the node graph, run by validate-nodes.ts after the schema/integrity checks.
+// Every rule has a default severity that a run can override ("off" disables it), and a node can
+// suppress rules for itself in nodes.json with `"lint_ignore": ["rule-id", ...]`.
+
+import type { NodeDefinition, NodePhase } from "./types";
+import type { DiagnosticSeverity } from "./validate-nodes";
+import { evaluateDependencies, referencedNodeIds } from "./dependency-rules";
+
+export type NodeLintRuleId =
+  | "unreachable-node"
+  | "spiral-order"
+  | "tree-level"
+  | "prompt-output-format"
+  | "phase-spiral-position"
+  | "forward-dependency";
+
+export type RuleSeverity = DiagnosticSeverity | "off";
+
+export type NodeLintConfig = Partial<Record<NodeLintRuleId, RuleSeverity>>;
+
+export interface LintFinding {
+  rule: NodeLintRuleId;
+  severity: DiagnosticSeverity;
+  nodeId: string;
+  path: string;
+  message: string;
+}
+
+type RuleFinding = Omit<LintFinding, "rule" | "severity">;
+
+interface LintContext {
+  nodes: NodeDefinition[];
+  byId: Map<string, NodeDefinition>;
+  pathOf: (nodeId: string) => string;
+}
+
+interface NodeLintRule {
+  id: NodeLintRuleId;
+  description: string;
+  defaultSeverity: DiagnosticSeverity;
+  check: (ctx: LintContext) => RuleFinding[];
+}
+
+// Spiral phases in journey order; "domain" and "meta" nodes are not positioned by phase.
+export const PHASE_SEQUENCE: NodePhase[] = [
+  "ego",
+  "persona",
+  "shadow",
+  "inner_other",
+  "disintegration",
+  "recenter",
+  "integration",
+  "reentry",
+];
+
+export const OUTPUT_FORMAT_HEADING = "Output format (strict)";
+
+function spiralNodes(nodes: NodeDefinition[]) {
+  return nodes
+    .filter((n) => typeof n.ui_position?.spiral?.order === "number")
+    .sort((a, b) => a.ui_position.spiral!.order - b.ui_position.spiral!.order);
+}
+
+export const NODE_LINT_RULES: NodeLintRule[] = [
+  {
+    id: "unreachable-node",
+    description: "Node can never be unlocked (missing dependency or dependency cycle upstream)",
+    defaultSeverity: "error",
+    check: ({ nodes, byId, pathOf }) => {
+      const reachable = new Set<string>();
+      let changed = true;
+      while (changed) {
+        changed = false;
+        for (const n of nodes) {
+          if (reachable.has(n.id)) continue;
+          if (evaluateDependencies(n, reachable, nodes).ok) {
+            reachable.add(n.id);
+            changed = true;
+          }
+        }
+      }
+      const unreachable = nodes.filter((n) => !reachable.has(n.id));
+      const blockers = (n: NodeDefinition) =>
+        Array.from(new Set(evaluateDependencies(n, reachable, nodes).unmet.flatMap((c) => c.pending)));
+
+      // Report root causes only (a missing dependency or a cycle member);
+      // nodes that are merely downstream of one are counted on it.
+      const dependsOn = (from: string, target: string) => {
+        const seen = new Set<string>();
+        const stack = [...blockers(byId.get(from)!)];
+        while (stack.length) {
+          const id = stack.pop()!;
+          if (id === target) return true;
+          if (seen.has(id) || !byId.has(id)) continue;
+          seen.add(id);
+          stack.push(...blockers(byId.get(id)!));
+        }
+        return false;
+      };
+
+      return unreachable
+        .filter((n) => blockers(n).some((d) => !byId.has(d)) || dependsOn(n.id, n.id))
+        .map((n) => {
+          const missing = blockers(n).find((d) => !byId.has(d));
+          const blocked = unreachable.filter((other) => other.id !== n.id && dependsOn(other.id, n.id)).length;
+          const reason = missing ? `dependency '${missing}' does not exist` : "it is part of a dependency cycle";
+          return {
+            nodeId: n.id,
+            path: `${pathOf(n.id)}.dependencies`,
+            message: `Node '${n.id}' can never be unlocked: ${reason}${
+              blocked ? `; ${blocked} node(s) depending on it are unreachable too` : ""
+            }`,
+          };
+        });
+    },
+  },
+  {
+    id: "spiral-order",
+    description: "Spiral order values must be unique and contiguous",
+    defaultSeverity: "error",
+    check: ({ nodes, pathOf }) => {
+      const findings: RuleFinding[] = [];
+      const sorted = spiralNodes(nodes);
+      for (let i = 1; i < sorted.length; i++) {
+        const prev = sorted[i - 1];
+        const n = sorted[i];
+        const prevOrder = prev.ui_position.spiral!.order;
+        const order = n.ui_position.spiral!.order;
+        const path = `${pathOf(n.id)}.ui_position.spiral.order`;
+        if (order === prevOrder) {
+          findings.push({ nodeId: n.id, path, message: `Spiral order ${order} is used by both '${prev.id}' and '${n.id}'` });
+        } else if (order > prevOrder + 1) {
+          findings.push({
+            nodeId: n.id,
+            path,
+            message: `Spiral order jumps from ${prevOrder} ('${prev.id}') to ${order} ('${n.id}')`,
+          });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: "tree-level",
+    description: "Tree level must equal parent level + 1 (0 for roots)",
+    defaultSeverity: "error",
+    check: ({ nodes, byId, pathOf }) => {
+      const findings: RuleFinding[] = [];
+      for (const n of nodes) {
+        const tree = n.ui_position?.tree;
+        if (!tree) continue;
+        const path = `${pathOf(n.id)}.ui_position.tree.level`;
+        if (tree.parent_id == null) {
+          if (tree.level !== 0) {
+            findings.push({ nodeId: n.id, path, message: `Root tree node '${n.id}' has level ${tree.level}, expected 0` });
+          }
+          continue;
+        }
+        const parentLevel = byId.get(tree.parent_id)?.ui_position?.tree?.level;
+        if (parentLevel == null) continue; // reported by the parent checks
+        if (tree.level !== parentLevel + 1) {
+          findings.push({
+            nodeId: n.id,
+            path,
+            message: `Tree node '${n.id}' has level ${tree.level}, expected ${parentLevel + 1} (parent '${tree.parent_id}' is level ${parentLevel})`,
+          });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: "prompt-output-format",
+    description: `prompt_template must contain an "${OUTPUT_FORMAT_HEADING}" section`,
+    defaultSeverity: "error",
+    check: ({ nodes, pathOf }) =>
+      nodes
+        .filter((n) => typeof n.prompt_template === "string" && !n.prompt_template.includes(OUTPUT_FORMAT_HEADING))
+        .map((n) => ({
+          nodeId: n.id,
+          path: `${pathOf(n.id)}.prompt_template`,
+          message: `Node '${n.id}' prompt_template has no "${OUTPUT_FORMAT_HEADING}" section`,
+        })),
+  },
+  {
+    id: "phase-spiral-position",
+    description: "Phases must follow the journey sequence along spiral order",
+    defaultSeverity: "warning",
+    check: ({ nodes, pathOf }) => {
+      const findings: RuleFinding[] = [];
+      let furthest: NodeDefinition | null = null;
+      for (const n of spiralNodes(nodes)) {
+        const index = PHASE_SEQUENCE.indexOf(n.phase);
+        if (index < 0) continue;
+        if (furthest && index < PHASE_SEQUENCE.indexOf(furthest.phase)) {
+          findings.push({
+            nodeId: n.id,
+            path: `${pathOf(n.id)}.phase`,
+            message: `Node '${n.id}' (phase '${n.phase}', order ${n.ui_position.spiral!.order}) comes after '${furthest.id}' (phase '${furthest.phase}', order ${furthest.ui_position.spiral!.order})`,
+          });
+        } else {
+          furthest = n;
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: "forward-dependency",
+    description: "Spiral nodes must only depend on nodes earlier in spiral order",
+    defaultSeverity: "error",
+    check: ({ nodes, byId, pathOf }) => {
+      const findings: RuleFinding[] = [];
+      for (const n of nodes) {
+        const order = n.ui_position?.spiral?.order;
+        if (order == null) continue;
+        for (const { id: d, path, soft } of referencedNodeIds(n)) {
+          const depOrder = byId.get(d)?.ui_position?.spiral?.order;
+          if (soft || depOrder == null || depOrder < order) continue;
+          findings.push({
+            nodeId: n.id,
+            path: `${pathOf(n.id)}${path}`,
+            message: `Node '${n.id}' (order ${order}) depends on '${d}' at order ${depOrder}, which is not earlier in the spiral`,
+          });
+        }
+      }
+      return findings;
+    },
+  },
+];
+
+/**
+ * Runs every enabled rule. Findings on nodes listing the rule in lint_ignore are dropped.
+ */
+export function lintNodes(nodes: NodeDefinition[], config: NodeLintConfig = {}): LintFinding[] {
+  const valid = nodes.filter((n) => n && typeof n.id === "string");
+  const indexById = new Map<string, number>();
+  nodes.forEach((n, i) => {
+    if (n && typeof n.id === "string" && !indexById.has(n.id)) indexById.set(n.id, i);
+  });
+  const ctx: LintContext = {
+    nodes: valid,
+    byId: new Map(valid.map((n) => [n.id, n])),
+    pathOf: (nodeId) => `$.nodes[${indexById.get(nodeId)}]`,
+  };
+
+  const findings: LintFinding[] = [];
+  for (const rule of NODE_LINT_RULES) {
+    const severity = config[rule.id] ?? rule.defaultSeverity;
+    if (severity === "off") continue;
+    for (const finding of rule.check(ctx)) {
+      if (ctx.byId.get(finding.nodeId)?.lint_ignore?.includes(rule.id)) continue;
+      findings.push({ ...finding, rule: rule.id, severity });
+    }
+  }
+  return findings;
+}
@@ -0,0 +1,54 @@
+// node-namespace.ts
+// Pack-scoped node ids. Node ids in a pack's nodes.json are local to that pack; once installed
+// they are stored as "<packId>:<nodeId>" so several packs can share the same tables.
+
+import { mapDependencyIds } from "./dependency-rules";
+import type { ContentPackInfo, NodeDefinition } from "./types";
+
+export const PACK_NODE_SEPARATOR = ":";
+
+// nodes.json files without a "pack" header (and all data from before content packs) belong here.
+export const DEFAULT_PACK: ContentPackInfo = {
+  id: "individuation",
+  title: "Individuation journey",
+};
+export const DEFAULT_PACK_URL = "/nodes.json";
+
+// AppSettings row holding a pack's ContentMeta and its currentNodeId.
+export function packSettingsKey(packId: string) {
+  return `pack:${packId}`;
+}
+
+export function scopeNodeId(packId: string, nodeId: string) {
+  return nodeId.includes(PACK_NODE_SEPARATOR) ? nodeId : `${packId}${PACK_NODE_SEPARATOR}${nodeId}`;
+}
+
+export function packIdOf(nodeId: string) {
+  const index = nodeId.indexOf(PACK_NODE_SEPARATOR);
+  return index < 0 ? DEFAULT_PACK.id : nodeId.slice(0, index);
+}
+
+export function localNodeId(nodeId: string) {
+  const index = nodeId.indexOf(PACK_NODE_SEPARATOR);
+  return index < 0 ? nodeId : nodeId.slice(index + 1);
+}
+
+// Key prefix of every node id in a pack (for startsWith queries on id / nodeId indexes).
+export function packNodePrefix(packId: string) {
+  return `${packId}${PACK_NODE_SEPARATOR}`;
+}
+
+/**
+ * Rewrites a node from a pack file into its installed form: id, dependency ids and tree parent scoped.
+ */
+export function scopeNodeDefinition(packId: string, node: NodeDefinition): NodeDefinition {
+  const scoped: NodeDefinition = {
+    ...mapDependencyIds(node, (d) => scopeNodeId(packId, d)),
+    id: scopeNodeId(packId, node.id),
+  };
+  const tree = node.ui_position?.tree;
+  if (tree?.parent_id) {
+    scoped.ui_position = { ...node.ui_position, tree: { ...tree, parent_id: scopeNodeId(packId, tree.parent_id) } };
+  }
+  return scoped;
+}
@@ -0,0 +1,165 @@
+// node-state.ts
+// Read/write helpers for the personal side of a node: progress notes, personalized summary
+// and structured commitments stored on UserNodeState.
+
+import { db } from "./db";
+import type { NodeCommitment, NodeCompletionPass, UserNodeState } from "./types";
+import { openMessages, openNodeState, openThreadSummary, sealNodeState } from "./vault";
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+const NODE_SUMMARY_RECENT_MESSAGES = 30;
+
+/**
+ * Older rows were seeded with `commitments: {}`; anything that isn't a commitment array
+ * is treated as empty.
+ */
+export function normalizeCommitments(raw: unknown): NodeCommitment[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (c): c is NodeCommitment =>
+      Boolean(c) && typeof c === "object" && typeof c.id === "string" && typeof c.text === "string"
+  );
+}
+
+/**
+ * Completion history of a row; rows from before completion passes have none (see migration v4).
+ */
+export function normalizeCompletions(raw: unknown): NodeCompletionPass[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (p): p is NodeCompletionPass =>
+      Boolean(p) && typeof p === "object" && typeof p.pass === "number" && typeof p.completedAt === "string"
+  );
+}
+
+export function isCommitmentOverdue(commitment: NodeCommitment, today = new Date()) {
+  if (commitment.done || !commitment.dueDate) return false;
+  return commitment.dueDate < today.toISOString().slice(0, 10);
+}
+
+export async function getUserNodeState(nodeId: string): Promise<UserNodeState | undefined> {
+  const row = await db.userNodeStates.get(nodeId);
+  if (!row) return undefined;
+  return openNodeState({
+    ...row,
+    commitments: normalizeCommitments(row.commitments),
+    completions: normalizeCompletions(row.completions),
+  });
+}
+
+export async function updateUserNodeState(
+  nodeId: string,
+  patch: Partial<Pick<UserNodeState, "progressNotes" | "personalizedSummary" | "commitments" | "completions">>
+): Promise<UserNodeState> {
+  const row = await getUserNodeState(nodeId);
+  if (!row) throw new Error(`Missing UserNodeState for ${nodeId}`);
+  const next: UserNodeState = {
+    ...row,
+    ...patch,
+    updatedAt: nowIso(),
+  };
+  await db.userNodeStates.put(await sealNodeState(next));
+  return next;
+}
+
+async function updateCommitments(
+  nodeId: string,
+  fn: (commitments: NodeCommitment[]) => NodeCommitment[]
+) {
+  const row = await getUserNodeState(nodeId);
+  if (!row) throw new Error(`Missing UserNodeState for ${nodeId}`);
+  return updateUserNodeState(nodeId, { commitments: fn(row.commitments ?? []) });
+}
+
+export async function updatePassNotes(nodeId: string, pass: number, notes: string) {
+  const row = await getUserNodeState(nodeId);
+  if (!row) throw new Error(`Missing UserNodeState for ${nodeId}`);
+  const completions = row.completions ?? [];
+  if (!completions.some((p) => p.pass === pass)) throw new Error(`Node ${nodeId} has no pass ${pass}`);
+  return updateUserNodeState(nodeId, {
+    completions: completions.map((p) => (p.pass === pass ? { ...p, notes: notes.trim() || undefined } : p)),
+  });
+}
+
+export async function addCommitment(
+  nodeId: string,
+  input: { text: string; dueDate?: string | null }
+) {
+  const commitment: NodeCommitment = {
+    id: crypto.randomUUID(),
+    text: input.text.trim(),
+    dueDate: input.dueDate || null,
+    done: false,
+    doneAt: null,
+    createdAt: nowIso(),
+  };
+  return updateCommitments(nodeId, (list) => [...list, commitment]);
+}
+
+export async function updateCommitment(
+  nodeId: string,
+  commitmentId: string,
+  patch: Partial<Pick<NodeCommitment, "text" | "dueDate" | "done">>
+) {
+  return updateCommitments(nodeId, (list) =>
+    list.map((c) => {
+      if (c.id !== commitmentId) return c;
+      const next = { ...c, ...patch };
+      if (patch.done != null && patch.done !== c.done) next.doneAt = patch.done ? nowIso() : null;
+      return next;
+    })
+  );
+}
+
+export async function removeCommitment(nodeId: string, commitmentId: string) {
+  return updateCommitments(nodeId, (list) => list.filter((c) => c.id !== commitmentId));
+}
+
+/**
+ * "Generate summary from my threads": synthesizes the node's ThreadSummaries and recent turns
+ * via /api/summarize and stores the result as personalizedSummary.
+ */
+export async function generateNodeSummary(
+  nodeId: string,
+  opts: { nodeTitle?: string; apiKey?: string; model?: string } = {}
+): Promise<UserNodeState> {
+  const row = await getUserNodeState(nodeId);
+  if (!row) throw new Error(`Missing UserNodeState for ${nodeId}`);
+
+  const threads = await db.threads.where("nodeId").equals(nodeId).toArray();
+  if (!threads.length) throw new Error("No chats for this node yet.");
+  const threadIds = threads.map((t) => t.id);
+  const [summaries, messages] = await Promise.all([
+    db.threadSummaries
+      .bulkGet(threadIds)
+      .then((rows) => Promise.all(rows.map((r) => (r ? openThreadSummary(r) : undefined)))),
+    db.messages.where("threadId").anyOf(threadIds).sortBy("createdAt").then(openMessages),
+  ]);
+
+  const response = await fetch("/api/summarize", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      kind: "node",
+      nodeTitle: opts.nodeTitle,
+      previousSummary: row.personalizedSummary,
+      threadSummaries: summaries
+        .map((s) => s?.summary?.trim())
+        .filter((s): s is string => Boolean(s)),
+      messages: messages
+        .slice(-NODE_SUMMARY_RECENT_MESSAGES)
+        .map((m) => ({ role: m.role, content: m.content })),
+      apiKey: opts.apiKey,
+      model: opts.model,
+    }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload?.error ?? "Failed to generate summary.");
+  }
+  const data = (await response.json()) as { summary: string };
+  return updateUserNodeState(nodeId, { personalizedSummary: data.summary });
+}
@@ -0,0 +1,94 @@
+// node-types.generated.ts
+// GENERATED from nodes.schema.json by scripts/generate-node-types.mjs. Do not edit by hand:
+// change the schema and run `npm run gen:node-types` (`npm run check:node-types` detects drift).
+
+export type NodeType = "spiral" | "tree" | "hybrid";
+
+export type NodePhase =
+  | "ego"
+  | "persona"
+  | "shadow"
+  | "inner_other"
+  | "disintegration"
+  | "recenter"
+  | "integration"
+  | "reentry"
+  | "domain"
+  | "meta";
+
+export type NodeDomain = "meta" | "inner" | "work" | "relationships" | "meaning" | "body";
+
+export interface SpiralPosition {
+  theta: number;
+  radius: number;
+  order: number;
+}
+
+export interface TreePosition {
+  x: number;
+  y: number;
+  branch: string;
+  level: number;
+  parent_id: string | null;
+}
+
+export interface UIPosition {
+  spiral?: SpiralPosition;
+  tree?: TreePosition;
+}
+
+export interface NodeDefinition {
+  id: string;
+  title: string;
+  type: NodeType;
+  phase: NodePhase;
+  domain: NodeDomain;
+  description: string;
+  dependencies: string[];
+  dependency_rules?: DependencyRule[]; // extra prerequisite clauses; all must hold (soft rules never block)
+  tags: string[];
+  prompt_template: string;
+  ui_position: UIPosition;
+  version: number;
+  personalization_prompts?: string[];
+  completion_checklist?: string[]; // items confirmed in the completion dialog
+  symbol_focus?: string[];
+  lint_ignore?: ("unreachable-node" | "spiral-order" | "tree-level" | "prompt-output-format" | "phase-spiral-position" | "forward-dependency")[]; // node-lint rule ids suppressed for this node
+}
+
+export interface ContentPackInfo {
+  id: string; // pack namespace for node ids (unique per installation)
+  title: string;
+  description?: string;
+}
+
+export type DependencyRule =
+  | AllOfDependencyRule
+  | AnyOfDependencyRule
+  | SoftDependencyRule
+  | PhaseGateRule;
+
+export interface AllOfDependencyRule {
+  all: string[]; // every listed node must be completed
+}
+
+export interface AnyOfDependencyRule {
+  any: string[]; // at least `min` of the listed nodes must be completed
+  min?: number; // defaults to 1
+}
+
+export interface SoftDependencyRule {
+  soft: string[]; // recommended first, never blocks
+}
+
+export interface PhaseGateRule {
+  phase: NodePhase; // at least `min` other nodes of this phase must be completed
+  min?: number; // defaults to 1
+}
+
+export interface NodesFile {
+  schema_version: number;
+  generated_at?: string;
+  pack?: ContentPackInfo; // content pack header; files without one belong to the default pack
+  nodes: NodeDefinition[];
+}
@@ -1,10 +1,13 @@
 import type { AppProps } from "next/app";
 import "../app/globals.css";
+import VaultGate from "../components/VaultGate";
 
 export default function App({ Component, pageProps }: AppProps) {
   return (
     <div className="min-h-screen bg-slate-950 text-slate-50 antialiased">
-      <Component {...pageProps} />
+      <VaultGate>
+        <Component {...pageProps} />
+      </VaultGate>
     </div>
   );
 }
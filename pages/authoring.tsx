@@ -0,0 +1,9 @@
+import dynamic from "next/dynamic";
+
+const NodeAuthoring = dynamic(() => import("../components/NodeAuthoring"), {
+  ssr: false,
+});
+
+export default function AuthoringRoutePage() {
+  return <NodeAuthoring />;
+}
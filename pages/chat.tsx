@@ -9,6 +9,10 @@ export default function ChatRoutePage() {
   const router = useRouter();
   const nodeIdParam = router.query.nodeId;
   const nodeId = Array.isArray(nodeIdParam) ? nodeIdParam[0] : nodeIdParam ?? null;
+  const threadIdParam = router.query.threadId;
+  const threadId = Array.isArray(threadIdParam) ? threadIdParam[0] : threadIdParam ?? null;
+  const messageIdParam = router.query.messageId;
+  const messageId = Array.isArray(messageIdParam) ? messageIdParam[0] : messageIdParam ?? null;
 
-  return <ChatPage nodeId={nodeId} />;
+  return <ChatPage nodeId={nodeId} threadId={threadId} messageId={messageId} />;
 }
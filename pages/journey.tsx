@@ -1,8 +1,12 @@
 import dynamic from "next/dynamic";
+import Link from "next/link";
 
 const JourneyMapCanvas = dynamic(() => import("../components/JourneyMapCanvas"), {
   ssr: false,
 });
+const PackSwitcher = dynamic(() => import("../components/PackSwitcher"), {
+  ssr: false,
+});
 
 const legendItems = [
   { label: "Completed", className: "bg-emerald-500" },
@@ -20,12 +24,31 @@ export default function JourneyPage() {
           <h1 className="text-2xl font-semibold">Spiral + Tree Overview</h1>
         </div>
         <div className="flex flex-wrap items-center gap-4 text-xs text-slate-300">
+          <PackSwitcher />
           {legendItems.map((item) => (
             <div key={item.label} className="flex items-center gap-2">
               <span className={`h-3 w-3 rounded-full ${item.className}`} aria-hidden />
               <span>{item.label}</span>
             </div>
           ))}
+          <Link
+            href="/progress"
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+          >
+            Progress
+          </Link>
+          <Link
+            href="/symbols"
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+          >
+            Symbol library
+          </Link>
+          <Link
+            href="/settings"
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+          >
+            Settings
+          </Link>
         </div>
       </header>
       <section className="relative flex-1">
@@ -0,0 +1,9 @@
+import dynamic from "next/dynamic";
+
+const ProgressDashboard = dynamic(() => import("../components/ProgressDashboard"), {
+  ssr: false,
+});
+
+export default function ProgressRoutePage() {
+  return <ProgressDashboard />;
+}
@@ -0,0 +1,38 @@
+import dynamic from "next/dynamic";
+import Link from "next/link";
+
+const DataBackup = dynamic(() => import("../components/DataBackup"), {
+  ssr: false,
+});
+
+const ContentStatus = dynamic(() => import("../components/ContentStatus"), {
+  ssr: false,
+});
+
+const VaultSettings = dynamic(() => import("../components/VaultSettings"), {
+  ssr: false,
+});
+
+export default function SettingsRoutePage() {
+  return (
+    <main className="flex min-h-screen flex-col">
+      <header className="flex flex-wrap items-center justify-between gap-4 border-b border-slate-800 bg-slate-950/90 px-6 py-4 text-slate-100">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-slate-400">Settings</p>
+          <h1 className="text-2xl font-semibold">Your data</h1>
+        </div>
+        <Link
+          href="/journey"
+          className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1 text-xs text-slate-100 hover:bg-slate-700"
+        >
+          Back to journey
+        </Link>
+      </header>
+      <section className="mx-auto flex w-full max-w-3xl flex-col gap-6 px-6 py-6">
+        <VaultSettings />
+        <DataBackup />
+        <ContentStatus />
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,9 @@
+import dynamic from "next/dynamic";
+
+const SymbolLibrary = dynamic(() => import("../components/SymbolLibrary"), {
+  ssr: false,
+});
+
+export default function SymbolsRoutePage() {
+  return <SymbolLibrary />;
+}
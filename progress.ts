@@ -0,0 +1,217 @@
+// progress.ts
+// Journey analytics for the /progress dashboard, computed locally from Dexie (no network):
+// completion per phase/domain, completion timeline, message volume, spiral pacing, symbols, overdue commitments.
+
+import { db } from "./db";
+import { getActivePackId } from "./content-packs";
+import { getNodesGroupedByStatus } from "./journey";
+import { packNodePrefix } from "./node-namespace";
+import { isCommitmentOverdue, normalizeCommitments, normalizeCompletions } from "./node-state";
+import type { NodeCommitment, NodeDefinition, NodeStatus } from "./types";
+import { openNodeState } from "./vault";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Weekly buckets shown in the message volume chart.
+export const MESSAGE_VOLUME_WEEKS = 12;
+const TOP_SYMBOL_LIMIT = 10;
+
+export interface CompletionBreakdown {
+  key: string;        // NodePhase or NodeDomain
+  completed: number;
+  total: number;
+}
+
+export interface CompletionEvent {
+  nodeId: string;
+  title: string;
+  pass: number;
+  completedAt: string;
+}
+
+export interface NodeMessageVolume {
+  nodeId: string;
+  title: string;
+  total: number;
+  weekly: number[];   // aligned with JourneyProgress.weeks
+}
+
+export interface SpiralStepInterval {
+  nodeId: string;
+  title: string;
+  order: number;
+  completedAt: string;               // first pass
+  daysSincePrevious: number | null;  // null for the first completed step
+}
+
+export interface SymbolFrequency {
+  symbolId: string;
+  label: string;
+  count: number;
+}
+
+export interface OverdueCommitment {
+  nodeId: string;
+  title: string;
+  commitment: NodeCommitment;
+  daysOverdue: number;
+}
+
+export interface JourneyProgress {
+  packId: string;
+  counts: Record<NodeStatus, number>;
+  total: number;
+  byPhase: CompletionBreakdown[];
+  byDomain: CompletionBreakdown[];
+  completions: CompletionEvent[];       // every pass, oldest first
+  weeks: string[];                      // ISO dates (Mondays) of the weekly buckets, oldest first
+  messageVolume: NodeMessageVolume[];   // nodes with messages, busiest first
+  spiralIntervals: SpiralStepInterval[];
+  topSymbols: SymbolFrequency[];
+  overdueCommitments: OverdueCommitment[];  // most overdue first
+}
+
+function startOfWeek(date: Date) {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d;
+}
+
+function breakdown(nodes: NodeDefinition[], completed: Set<string>, keyOf: (n: NodeDefinition) => string) {
+  const map = new Map<string, CompletionBreakdown>();
+  for (const n of nodes) {
+    const key = keyOf(n);
+    const entry = map.get(key) ?? { key, completed: 0, total: 0 };
+    entry.total++;
+    if (completed.has(n.id)) entry.completed++;
+    map.set(key, entry);
+  }
+  return Array.from(map.values());
+}
+
+/**
+ * Progress analytics for one content pack (the active pack by default).
+ */
+export async function getJourneyProgress(packId?: string): Promise<JourneyProgress> {
+  const id = packId ?? (await getActivePackId());
+  const prefix = packNodePrefix(id);
+  const now = new Date();
+
+  const [groups, states, threads, occurrences] = await Promise.all([
+    getNodesGroupedByStatus(id),
+    db.userNodeStates.where("nodeId").startsWith(prefix).toArray(),
+    db.threads.where("nodeId").startsWith(prefix).toArray(),
+    db.symbolOccurrences.where("nodeId").startsWith(prefix).toArray(),
+  ]);
+  const nodes = [...groups.completed, ...groups.next, ...groups.available, ...groups.locked];
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const titleOf = (nodeId: string) => byId.get(nodeId)?.title ?? nodeId;
+  const completedIds = new Set(groups.completed.map((n) => n.id));
+
+  // Spiral order first so the phase chart reads like the journey.
+  const phaseOrder = (phase: string) =>
+    Math.min(...nodes.filter((n) => n.phase === phase).map((n) => n.ui_position?.spiral?.order ?? Infinity));
+  const byPhase = breakdown(nodes, completedIds, (n) => n.phase).sort((a, b) => phaseOrder(a.key) - phaseOrder(b.key));
+  const byDomain = breakdown(nodes, completedIds, (n) => n.domain).sort((a, b) => a.key.localeCompare(b.key));
+
+  const completions: CompletionEvent[] = states
+    .filter((s) => byId.has(s.nodeId))
+    .flatMap((s) =>
+      normalizeCompletions(s.completions).map((p) => ({
+        nodeId: s.nodeId,
+        title: titleOf(s.nodeId),
+        pass: p.pass,
+        completedAt: p.completedAt,
+      }))
+    )
+    .sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+
+  // Pacing follows the first time through the spiral; later passes are revisits.
+  const spiralIntervals: SpiralStepInterval[] = [];
+  const completedAtById = new Map(
+    completions.filter((c) => c.pass === 1).map((c) => [c.nodeId, c.completedAt])
+  );
+  const spiral = nodes
+    .filter((n) => n.ui_position?.spiral && completedAtById.has(n.id))
+    .sort((a, b) => a.ui_position.spiral!.order - b.ui_position.spiral!.order);
+  spiral.forEach((n, i) => {
+    const completedAt = completedAtById.get(n.id)!;
+    const previous = i > 0 ? completedAtById.get(spiral[i - 1].id)! : null;
+    spiralIntervals.push({
+      nodeId: n.id,
+      title: n.title,
+      order: n.ui_position.spiral!.order,
+      completedAt,
+      daysSincePrevious: previous ? (Date.parse(completedAt) - Date.parse(previous)) / DAY_MS : null,
+    });
+  });
+
+  // Message counts only need threadId/createdAt, so encrypted content is never opened.
+  const firstWeek = startOfWeek(now);
+  firstWeek.setUTCDate(firstWeek.getUTCDate() - 7 * (MESSAGE_VOLUME_WEEKS - 1));
+  const weeks = Array.from({ length: MESSAGE_VOLUME_WEEKS }, (_, i) =>
+    new Date(firstWeek.getTime() + i * 7 * DAY_MS).toISOString().slice(0, 10)
+  );
+  const nodeByThread = new Map(threads.map((t) => [t.id, t.nodeId]));
+  const messages = threads.length
+    ? await db.messages.where("threadId").anyOf(Array.from(nodeByThread.keys())).toArray()
+    : [];
+  const volume = new Map<string, NodeMessageVolume>();
+  for (const m of messages) {
+    const nodeId = nodeByThread.get(m.threadId)!;
+    const entry = volume.get(nodeId) ?? {
+      nodeId,
+      title: titleOf(nodeId),
+      total: 0,
+      weekly: new Array<number>(MESSAGE_VOLUME_WEEKS).fill(0),
+    };
+    entry.total++;
+    const week = Math.floor((Date.parse(m.createdAt) - firstWeek.getTime()) / (7 * DAY_MS));
+    if (week >= 0 && week < MESSAGE_VOLUME_WEEKS) entry.weekly[week]++;
+    volume.set(nodeId, entry);
+  }
+  const messageVolume = Array.from(volume.values()).sort((a, b) => b.total - a.total);
+
+  const symbolCounts = new Map<string, number>();
+  for (const o of occurrences) symbolCounts.set(o.symbolId, (symbolCounts.get(o.symbolId) ?? 0) + 1);
+  const topIds = Array.from(symbolCounts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_SYMBOL_LIMIT);
+  const symbols = await db.symbols.bulkGet(topIds.map(([symbolId]) => symbolId));
+  const topSymbols = topIds.map(([symbolId, count], i) => ({ symbolId, label: symbols[i]?.label ?? symbolId, count }));
+
+  // Commitment text may be vault-encrypted; only rows with an overdue commitment are opened.
+  const overdueCommitments: OverdueCommitment[] = [];
+  for (const s of states) {
+    if (!normalizeCommitments(s.commitments).some((c) => isCommitmentOverdue(c, now))) continue;
+    const opened = await openNodeState({ ...s, commitments: normalizeCommitments(s.commitments) });
+    for (const commitment of opened.commitments ?? []) {
+      if (!isCommitmentOverdue(commitment, now)) continue;
+      overdueCommitments.push({
+        nodeId: s.nodeId,
+        title: titleOf(s.nodeId),
+        commitment,
+        daysOverdue: Math.floor((now.getTime() - Date.parse(commitment.dueDate!)) / DAY_MS),
+      });
+    }
+  }
+  overdueCommitments.sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+  return {
+    packId: id,
+    counts: {
+      completed: groups.completed.length,
+      next: groups.next.length,
+      available: groups.available.length,
+      locked: groups.locked.length,
+    },
+    total: nodes.length,
+    byPhase,
+    byDomain,
+    completions,
+    weeks,
+    messageVolume,
+    spiralIntervals,
+    topSymbols,
+    overdueCommitments,
+  };
+}
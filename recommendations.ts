@@ -0,0 +1,235 @@
+// recommendations.ts
+// Explainable "next node" scoring: every signal scores an available node in 0..1 with a reason,
+// and the weighted sum ranks the candidates. A run can override signal weights (0 disables one).
+
+import { db } from "./db";
+import { packNodePrefix } from "./node-namespace";
+import { symbolSlugForTerm } from "./symbol-extractor";
+import type {
+  AppSettings,
+  ComputedNodeStatus,
+  NodeDefinition,
+  NodeRecommendation,
+  RecommendationSignalId,
+  RecommendationSignalScore,
+} from "./types";
+
+export type RecommendationWeights = Partial<Record<RecommendationSignalId, number>>;
+
+export interface RecommendationContext {
+  nodes: NodeDefinition[];
+  byId: Map<string, NodeDefinition>;
+  statusMap: Map<string, ComputedNodeStatus>;
+  currentNodeId: string | null;
+  currentSpiralOrder: number | null;
+  lastThreadActivity: Map<string, string>;  // nodeId -> latest Thread.updatedAt
+  openCommitments: Map<string, { open: number; overdue: number }>;
+  recentSymbols: Map<string, string>;       // SymbolDef.id -> label, seen in the last RECENT_SYMBOL_DAYS
+  now: number;
+}
+
+interface RecommendationSignal {
+  id: RecommendationSignalId;
+  description: string;
+  defaultWeight: number;
+  score: (node: NodeDefinition, ctx: RecommendationContext) => { score: number; reason: string } | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const THREAD_HALF_LIFE_DAYS = 7;
+export const RECENT_SYMBOL_DAYS = 30;
+
+function daysAgo(iso: string, now: number) {
+  const days = Math.floor((now - Date.parse(iso)) / DAY_MS);
+  if (days <= 0) return "today";
+  return days === 1 ? "yesterday" : `${days} days ago`;
+}
+
+function spiralOrder(node: NodeDefinition) {
+  return node.ui_position?.spiral?.order ?? null;
+}
+
+export const RECOMMENDATION_SIGNALS: RecommendationSignal[] = [
+  {
+    id: "spiral-order",
+    description: "Follow the spiral: the first available node at or after the current spiral order",
+    defaultWeight: 3,
+    score: (node, { nodes, statusMap, currentSpiralOrder }) => {
+      const order = spiralOrder(node);
+      if (node.type !== "spiral" || order == null) return null;
+      const current = currentSpiralOrder ?? 0;
+      const key = (n: NodeDefinition) => (spiralOrder(n)! < current ? 1e6 : 0) + spiralOrder(n)!;
+      const queue = nodes
+        .filter((n) => n.type === "spiral" && spiralOrder(n) != null && statusMap.get(n.id)?.status === "available")
+        .sort((a, b) => key(a) - key(b));
+      const rank = queue.findIndex((n) => n.id === node.id);
+      if (rank < 0) return null;
+      return {
+        score: 1 / (1 + rank),
+        reason: rank === 0 ? `Next step on the spiral (order ${order})` : `Spiral step ${order}`,
+      };
+    },
+  },
+  {
+    id: "tag-overlap",
+    description: "Shares tags with the current node",
+    defaultWeight: 1,
+    score: (node, { byId, currentNodeId }) => {
+      const current = currentNodeId ? byId.get(currentNodeId) : undefined;
+      if (!current || current.id === node.id) return null;
+      const currentTags = new Set(current.tags ?? []);
+      const shared = (node.tags ?? []).filter((t) => currentTags.has(t));
+      if (!shared.length) return null;
+      const union = new Set([...currentTags, ...(node.tags ?? [])]).size;
+      return { score: shared.length / union, reason: `Shares ${shared.join(", ")} with "${current.title}"` };
+    },
+  },
+  {
+    id: "domain-balance",
+    description: "Favors tree branches (domains) with fewer completed nodes",
+    defaultWeight: 1,
+    score: (node, { nodes, statusMap }) => {
+      if (!node.ui_position?.tree) return null;
+      const completedByDomain = new Map<string, number>();
+      for (const n of nodes) {
+        if (n.ui_position?.tree && statusMap.get(n.id)?.status === "completed") {
+          completedByDomain.set(n.domain, (completedByDomain.get(n.domain) ?? 0) + 1);
+        }
+      }
+      const most = Math.max(0, ...completedByDomain.values());
+      if (!most) return null;
+      const count = completedByDomain.get(node.domain) ?? 0;
+      const score = 1 - count / most;
+      if (score <= 0) return null;
+      return {
+        score,
+        reason: count
+          ? `Balances your tree: ${count} completed in ${node.domain} vs ${most} in your strongest branch`
+          : `Balances your tree: nothing completed in ${node.domain} yet`,
+      };
+    },
+  },
+  {
+    id: "thread-recency",
+    description: "Recent chat activity on the node",
+    defaultWeight: 1.5,
+    score: (node, { lastThreadActivity, now }) => {
+      const last = lastThreadActivity.get(node.id);
+      if (!last) return null;
+      const days = Math.max(0, (now - Date.parse(last)) / DAY_MS);
+      return { score: 0.5 ** (days / THREAD_HALF_LIFE_DAYS), reason: `You were chatting here ${daysAgo(last, now)}` };
+    },
+  },
+  {
+    id: "unresolved-commitments",
+    description: "Open (and overdue) commitments on the node",
+    defaultWeight: 1.5,
+    score: (node, { openCommitments }) => {
+      const c = openCommitments.get(node.id);
+      if (!c?.open) return null;
+      return {
+        score: Math.min(1, (c.open + c.overdue) / 3),
+        reason: `${c.open} open commitment(s)${c.overdue ? `, ${c.overdue} overdue` : ""}`,
+      };
+    },
+  },
+  {
+    id: "symbol-motifs",
+    description: "Symbols seen recently that are in the node's symbol_focus",
+    defaultWeight: 2,
+    score: (node, { recentSymbols }) => {
+      const matches = Array.from(new Set((node.symbol_focus ?? []).map(symbolSlugForTerm)))
+        .filter((slug) => recentSymbols.has(slug))
+        .map((slug) => recentSymbols.get(slug)!);
+      if (!matches.length) return null;
+      return { score: Math.min(1, matches.length / 2), reason: `Recent symbols match its focus: ${matches.join(", ")}` };
+    },
+  },
+];
+
+/**
+ * Loads the user activity the signals need for one pack: thread activity, open commitments
+ * and symbols seen recently (the symbol library is shared by all packs).
+ */
+export async function buildRecommendationContext(
+  packId: string,
+  nodes: NodeDefinition[],
+  statusMap: Map<string, ComputedNodeStatus>,
+  settings?: Pick<AppSettings, "currentNodeId" | "currentSpiralOrder">
+): Promise<RecommendationContext> {
+  const now = Date.now();
+  const prefix = packNodePrefix(packId);
+  const [threads, states, occurrences] = await Promise.all([
+    db.threads.where("nodeId").startsWith(prefix).toArray(),
+    db.userNodeStates.where("nodeId").startsWith(prefix).toArray(),
+    db.symbolOccurrences
+      .where("createdAt")
+      .aboveOrEqual(new Date(now - RECENT_SYMBOL_DAYS * DAY_MS).toISOString())
+      .toArray(),
+  ]);
+
+  const lastThreadActivity = new Map<string, string>();
+  for (const t of threads) {
+    const last = lastThreadActivity.get(t.nodeId);
+    if (!last || t.updatedAt > last) lastThreadActivity.set(t.nodeId, t.updatedAt);
+  }
+
+  // Commitment text may be vault-encrypted; only done/dueDate are read here.
+  const today = new Date(now).toISOString().slice(0, 10);
+  const openCommitments = new Map<string, { open: number; overdue: number }>();
+  for (const s of states) {
+    const open = (s.commitments ?? []).filter((c) => !c.done);
+    if (!open.length) continue;
+    openCommitments.set(s.nodeId, {
+      open: open.length,
+      overdue: open.filter((c) => c.dueDate && c.dueDate < today).length,
+    });
+  }
+
+  const symbolIds = Array.from(new Set(occurrences.map((o) => o.symbolId)));
+  const symbols = await db.symbols.bulkGet(symbolIds);
+  const recentSymbols = new Map<string, string>();
+  symbolIds.forEach((id, i) => recentSymbols.set(id, symbols[i]?.label ?? id));
+
+  return {
+    nodes,
+    byId: new Map(nodes.map((n) => [n.id, n])),
+    statusMap,
+    currentNodeId: settings?.currentNodeId ?? null,
+    currentSpiralOrder: settings?.currentSpiralOrder ?? null,
+    lastThreadActivity,
+    openCommitments,
+    recentSymbols,
+    now,
+  };
+}
+
+/**
+ * Scores every candidate with each enabled signal and returns the top `limit`, best first.
+ * Candidates without any signal still rank (by spiral order, then id) so there is always a next node.
+ */
+export function rankNodeRecommendations(
+  candidates: NodeDefinition[],
+  ctx: RecommendationContext,
+  opts: { weights?: RecommendationWeights; limit?: number } = {}
+): NodeRecommendation[] {
+  const limit = opts.limit ?? 3;
+  const scored = candidates.map((node) => {
+    const signals: RecommendationSignalScore[] = [];
+    for (const signal of RECOMMENDATION_SIGNALS) {
+      const weight = opts.weights?.[signal.id] ?? signal.defaultWeight;
+      if (weight <= 0) continue;
+      const result = signal.score(node, ctx);
+      if (!result || result.score <= 0) continue;
+      signals.push({ signal: signal.id, score: result.score, weight, contribution: result.score * weight, reason: result.reason });
+    }
+    signals.sort((a, b) => b.contribution - a.contribution);
+    return { node, signals, score: signals.reduce((sum, s) => sum + s.contribution, 0) };
+  });
+
+  const order = (n: NodeDefinition) => spiralOrder(n) ?? Number.MAX_SAFE_INTEGER;
+  return scored
+    .sort((a, b) => b.score - a.score || order(a.node) - order(b.node) || a.node.id.localeCompare(b.node.id))
+    .slice(0, limit)
+    .map((entry, i) => ({ nodeId: entry.node.id, rank: i + 1, score: entry.score, signals: entry.signals }));
+}
@@ -0,0 +1,98 @@
+// scripts/generate-node-types.mjs
+// Generates node-types.generated.ts (NodeDefinition and friends) from nodes.schema.json.
+// Enum and type-less anyOf definitions become union types, object definitions become interfaces
+// (anyOf next to "type" only constrains required properties and is not reflected in the types).
+//
+// Usage:
+//   node scripts/generate-node-types.mjs           write node-types.generated.ts
+//   node scripts/generate-node-types.mjs --check   exit 1 if the committed file has drifted
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const schemaPath = path.join(root, "nodes.schema.json");
+const outputPath = path.join(root, "node-types.generated.ts");
+
+// The root object of nodes.schema.json has no definition name of its own.
+const ROOT_TYPE_NAME = "NodesFile";
+
+function refName(ref) {
+  return ref.split("/").pop();
+}
+
+function tsType(schema) {
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.anyOf && !schema.type) return schema.anyOf.map(tsType).join(" | ");
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join(" | ");
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types
+    .map((type) => {
+      switch (type) {
+        case "string":
+        case "boolean":
+        case "null":
+          return type;
+        case "integer":
+        case "number":
+          return "number";
+        case "array": {
+          const item = schema.items ? tsType(schema.items) : "unknown";
+          return item.includes(" | ") ? `(${item})[]` : `${item}[]`;
+        }
+        case "object":
+          return "Record<string, unknown>";
+        default:
+          throw new Error(`Unsupported schema type: ${JSON.stringify(type)}`);
+      }
+    })
+    .join(" | ");
+}
+
+function emitAlias(name, schema) {
+  const members = schema.enum ? schema.enum.map((v) => JSON.stringify(v)) : schema.anyOf.map(tsType);
+  const inline = `export type ${name} = ${members.join(" | ")};`;
+  if (inline.length <= 100) return inline;
+  return [`export type ${name} =`, ...members.map((m) => `  | ${m}`)].join("\n").concat(";");
+}
+
+function emitInterface(name, schema) {
+  const required = new Set(schema.required ?? []);
+  const lines = [`export interface ${name} {`];
+  for (const [key, prop] of Object.entries(schema.properties ?? {})) {
+    const field = `  ${key}${required.has(key) ? "" : "?"}: ${tsType(prop)};`;
+    lines.push(prop.description ? `${field} // ${prop.description}` : field);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+export function generateNodeTypes(schema) {
+  const blocks = [
+    "// node-types.generated.ts",
+    "// GENERATED from nodes.schema.json by scripts/generate-node-types.mjs. Do not edit by hand:",
+    "// change the schema and run `npm run gen:node-types` (`npm run check:node-types` detects drift).",
+  ].join("\n");
+  const parts = [blocks];
+  for (const [name, def] of Object.entries(schema.definitions ?? {})) {
+    parts.push(def.enum || (def.anyOf && !def.type) ? emitAlias(name, def) : emitInterface(name, def));
+  }
+  parts.push(emitInterface(ROOT_TYPE_NAME, schema));
+  return parts.join("\n\n") + "\n";
+}
+
+const schema = JSON.parse(fs.readFileSync(schemaPath, "utf8"));
+const generated = generateNodeTypes(schema);
+
+if (process.argv.includes("--check")) {
+  const current = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, "utf8") : "";
+  if (current !== generated) {
+    console.error("node-types.generated.ts is out of date with nodes.schema.json. Run `npm run gen:node-types`.");
+    process.exit(1);
+  }
+  console.log("OK: node-types.generated.ts matches nodes.schema.json.");
+} else {
+  fs.writeFileSync(outputPath, generated);
+  console.log(`Wrote ${path.relative(root, outputPath)}`);
+}
@@ -0,0 +1,40 @@
+// scripts/layout-nodes.mjs
+// Writes automatic ui_position values back into the root nodes.json (see auto-layout.ts).
+// By default only nodes without a position are placed and overlapping nodes are pushed apart;
+// --all re-places every node (spiral from order, tidy tree from parent_id/branch).
+//
+// Usage: node scripts/layout-nodes.mjs [--all] [--dry-run]
+// Exit codes: 0 = written or unchanged, 2 = unreadable input.
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { requireTs } from "./require-ts.mjs";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const sourcePath = path.join(root, "nodes.json");
+const mode = process.argv.includes("--all") ? "all" : "missing";
+const dryRun = process.argv.includes("--dry-run");
+
+const { autoLayoutNodes } = requireTs(path.join(root, "auto-layout.ts"));
+
+let nodesFile;
+try {
+  nodesFile = JSON.parse(fs.readFileSync(sourcePath, "utf8"));
+} catch (error) {
+  console.error(`Cannot read nodes.json: ${error instanceof Error ? error.message : error}`);
+  process.exit(2);
+}
+
+const { nodes, placed, moved } = autoLayoutNodes(nodesFile.nodes, { mode });
+if (!moved.length) {
+  console.log("nodes.json layout is unchanged.");
+  process.exit(0);
+}
+for (const id of moved) console.log(`${placed.includes(id) ? "placed" : "moved "} ${id}`);
+if (dryRun) {
+  console.log(`\n${moved.length} node(s) would change (dry run).`);
+} else {
+  fs.writeFileSync(sourcePath, `${JSON.stringify({ ...nodesFile, nodes }, null, 2)}\n`);
+  console.log(`\nUpdated ${moved.length} node(s) in nodes.json. Run npm run publish:nodes to refresh public/.`);
+}
@@ -0,0 +1,45 @@
+// scripts/publish-nodes.mjs
+// Validates the root nodes.json and publishes it to public/nodes.json, which the app fetches at runtime.
+// public/nodes.json is a build output (gitignored); edit the root nodes.json only.
+//
+// Usage: node scripts/publish-nodes.mjs
+// Exit codes: 0 = published, 1 = validation errors, 2 = unreadable input.
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { requireTs } from "./require-ts.mjs";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const sourcePath = path.join(root, "nodes.json");
+const targetPath = path.join(root, "public", "nodes.json");
+
+const { formatDiagnostic, hasErrors, validateNodesFile } = requireTs(path.join(root, "validate-nodes.ts"));
+
+let raw;
+let nodesFile;
+try {
+  raw = fs.readFileSync(sourcePath, "utf8");
+  nodesFile = JSON.parse(raw);
+} catch (error) {
+  console.error(`Cannot read nodes.json: ${error instanceof Error ? error.message : error}`);
+  process.exit(2);
+}
+
+const diagnostics = validateNodesFile(nodesFile);
+for (const d of diagnostics) {
+  (d.severity === "error" ? console.error : console.warn)(formatDiagnostic(d));
+}
+if (hasErrors(diagnostics)) {
+  console.error("\nNot publishing: nodes.json has validation errors.");
+  process.exit(1);
+}
+
+const current = fs.existsSync(targetPath) ? fs.readFileSync(targetPath, "utf8") : null;
+if (current === raw) {
+  console.log("public/nodes.json is up to date.");
+} else {
+  fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+  fs.writeFileSync(targetPath, raw);
+  console.log(`Published ${nodesFile.nodes.length} nodes to public/nodes.json.`);
+}
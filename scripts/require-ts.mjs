@@ -0,0 +1,28 @@
+// scripts/require-ts.mjs
+// Lets the build scripts load the app's TypeScript modules (validate-nodes.ts, auto-layout.ts, ...)
+// by transpiling them on require, so scripts and app share one implementation without a TS runner.
+//
+// Usage: const { validateNodesFile } = requireTs(path.join(root, "validate-nodes.ts"));
+
+import fs from "node:fs";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+const ts = require("typescript");
+
+require.extensions[".ts"] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, "utf8"), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+      resolveJsonModule: true,
+    },
+  });
+  module._compile(outputText, filename);
+};
+
+export function requireTs(filename) {
+  return require(filename);
+}
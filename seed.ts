@@ -1,62 +1,202 @@
 // seed.ts
-// Loads static authored nodes.json into IndexedDB (Dexie) if not present.
+// Loads static authored content packs (nodes.json files) into IndexedDB (Dexie) and upgrades them.
 // Designed for serverless/local-first usage.
 
 import { db } from "./db";
-import type { NodesFile, NodeDefinition, AppSettings, UserNodeState } from "./types";
+import type { NodesFile, NodeDefinition, AppSettings, UserNodeState, ContentMeta } from "./types";
+import { formatDiagnostic, validateNodesFile } from "./validate-nodes";
+import { getPackNodes, getPackSettings, listInstalledPacks, updatePackSettings } from "./content-packs";
+import { DEFAULT_PACK, DEFAULT_PACK_URL, packNodePrefix, scopeNodeDefinition } from "./node-namespace";
 
 function nowIso() {
   return new Date().toISOString();
 }
 
-function assertNodeBasics(n: any): n is NodeDefinition {
-  if (!n || typeof n !== "object") return false;
-  if (typeof n.id !== "string") return false;
-  if (!Array.isArray(n.dependencies)) return false;
-  if (!Array.isArray(n.tags)) return false;
-  if (!n.ui_position || typeof n.ui_position !== "object") return false;
-  return true;
+// Highest NodesFile.schema_version this build understands.
+export const SUPPORTED_NODES_SCHEMA_VERSION = 1;
+
+export interface NodeContentDiff {
+  added: NodeDefinition[];
+  updated: NodeDefinition[];  // incoming version is newer than the installed one
+  removed: string[];          // installed ids missing from the incoming file
+  unchanged: number;
+}
+
+/**
+ * Diffs incoming NodeDefinitions against the installed ones by id and version.
+ */
+export function diffNodeDefinitions(existing: NodeDefinition[], incoming: NodeDefinition[]): NodeContentDiff {
+  const installed = new Map(existing.map((n) => [n.id, n]));
+  const incomingIds = new Set(incoming.map((n) => n.id));
+  const diff: NodeContentDiff = { added: [], updated: [], removed: [], unchanged: 0 };
+  for (const n of incoming) {
+    const current = installed.get(n.id);
+    if (!current) diff.added.push(n);
+    else if (typeof current.version !== "number" || n.version > current.version) diff.updated.push(n);
+    else diff.unchanged++;
+  }
+  for (const id of installed.keys()) {
+    if (!incomingIds.has(id)) diff.removed.push(id);
+  }
+  return diff;
 }
 
 /**
- * Seed NodeDefinitions from a URL (typically "/nodes.json").
- * - If nodeDefinitions table is empty, it bulkAdds nodes.
- * - If not empty, it does nothing unless force=true.
+ * Node ids of a pack referenced by user data (UserNodeState, threads, symbol occurrences)
+ * that no longer exist in nodeDefinitions. That data is kept, never deleted.
+ */
+export async function findOrphanedNodeIds(packId: string): Promise<string[]> {
+  const prefix = packNodePrefix(packId);
+  const [nodeIds, states, threads, occurrences] = await Promise.all([
+    db.nodeDefinitions.where("id").startsWith(prefix).primaryKeys(),
+    db.userNodeStates.where("nodeId").startsWith(prefix).primaryKeys(),
+    db.threads.where("nodeId").startsWith(prefix).toArray(),
+    db.symbolOccurrences.where("nodeId").startsWith(prefix).toArray(),
+  ]);
+  const known = new Set(nodeIds);
+  const orphaned = new Set<string>();
+  for (const id of [...states, ...threads.map((t) => t.nodeId), ...occurrences.map((o) => o.nodeId)]) {
+    if (id && !known.has(id)) orphaned.add(id);
+  }
+  return Array.from(orphaned).sort();
+}
+
+export async function getContentMeta(packId: string): Promise<ContentMeta | null> {
+  return (await getPackSettings(packId))?.content ?? null;
+}
+
+/**
+ * Install or upgrade a content pack from a URL (the default pack is "/nodes.json").
+ * The pack is identified by the file's "pack" header and its node ids are stored scoped to that pack,
+ * so packs never collide. Only the default URL may omit the header (it is then DEFAULT_PACK); a pack id
+ * already installed from another URL is refused rather than diffed against (and deleting) its nodes.
+ * - If the pack has no installed nodes (or force=true), its nodes are replaced.
+ * - Otherwise nodes are diffed by id/version: new nodes are added, nodes with a higher
+ *   version are updated and nodes missing from the file are removed.
+ * UserNodeState rows and threads are always preserved; user data pointing at removed nodes
+ * is reported as orphanedNodeIds (also stored on the pack's settings row).
  */
 export async function seedNodeDefinitionsFromUrl(
-  url = "/nodes.json",
+  url = DEFAULT_PACK_URL,
   opts: { force?: boolean } = {}
 ) {
   const { force = false } = opts;
 
-  const existingCount = await db.nodeDefinitions.count();
-  if (existingCount > 0 && !force) return { seeded: false, reason: "already_seeded" as const };
-
   const res = await fetch(url, { cache: "no-store" });
   if (!res.ok) throw new Error(`Failed to fetch nodes from ${url}: ${res.status} ${res.statusText}`);
 
   const data = (await res.json()) as NodesFile;
   if (!data?.nodes || !Array.isArray(data.nodes)) throw new Error("Invalid nodes.json: missing nodes array");
+  if (data.schema_version > SUPPORTED_NODES_SCHEMA_VERSION) {
+    throw new Error(
+      `nodes.json schema_version ${data.schema_version} is newer than supported (${SUPPORTED_NODES_SCHEMA_VERSION})`
+    );
+  }
+
+  // Same checks as the validate-nodes CLI; warnings (e.g. proximity) and authoring lint rules
+  // don't block seeding.
+  const errors = validateNodesFile(data, { lint: false }).filter((d) => d.severity === "error");
+  if (errors.length) {
+    const shown = errors.slice(0, 5).map(formatDiagnostic).join("\n");
+    throw new Error(`Invalid nodes.json (${errors.length} error(s)):\n${shown}`);
+  }
 
-  // Light validation (full validation can be done offline with validate-nodes.ts)
-  const bad = data.nodes.find((n) => !assertNodeBasics(n));
-  if (bad) throw new Error(`Invalid node shape encountered during seeding (id: ${bad?.id ?? "unknown"})`);
+  const pack = packOfFile(data, url);
+  const installedFrom = (await getContentMeta(pack.id))?.sourceUrl;
+  if (installedFrom && installedFrom !== url) {
+    throw new Error(`Pack '${pack.id}' is already installed from ${installedFrom}; refusing to overwrite it from ${url}.`);
+  }
+  const nodes = data.nodes.map((n) => scopeNodeDefinition(pack.id, n));
+  const existing = await getPackNodes(pack.id);
+  const firstSpiral = nodes.find((n) => n.type === "spiral") ?? nodes[0];
+
+  // Ensure a default settings row exists; the first installed pack becomes the active one.
+  const global = await db.appSettings.get("global");
+  if (!global?.activePackId) await upsertGlobalSettings({ activePackId: pack.id });
+
+  if (existing.length === 0 || force) {
+    await db.transaction("rw", db.nodeDefinitions, async () => {
+      await db.nodeDefinitions.bulkDelete(existing.map((n) => n.id));
+      await db.nodeDefinitions.bulkAdd(nodes);
+    });
+
+    await updatePackSettings(pack.id, {
+      currentNodeId: firstSpiral.id,
+      currentSpiralOrder: firstSpiral.ui_position?.spiral?.order ?? 1,
+    });
+
+    // Ensure a UserNodeState row exists per node (for completion + personal notes).
+    await ensureUserNodeStateRows();
+    const orphanedNodeIds = await recordContentMeta(url, data);
+    return { seeded: true, reason: "seeded" as const, packId: pack.id, count: nodes.length, orphanedNodeIds };
+  }
+
+  const diff = diffNodeDefinitions(existing, nodes);
+  const meta = await getContentMeta(pack.id);
+  if (
+    !diff.added.length &&
+    !diff.updated.length &&
+    !diff.removed.length &&
+    meta?.schemaVersion === data.schema_version
+  ) {
+    return { seeded: false, reason: "up_to_date" as const, packId: pack.id, orphanedNodeIds: meta.orphanedNodeIds };
+  }
 
   await db.transaction("rw", db.nodeDefinitions, async () => {
-    await db.nodeDefinitions.clear();
-    await db.nodeDefinitions.bulkAdd(data.nodes);
+    await db.nodeDefinitions.bulkPut([...diff.added, ...diff.updated]);
+    await db.nodeDefinitions.bulkDelete(diff.removed);
   });
 
-  // Ensure a default settings row exists
-  await upsertGlobalSettings({
-    currentNodeId: data.nodes.find((n) => n.type === "spiral")?.id ?? "ego_formation",
-    currentSpiralOrder: data.nodes.find((n) => n.id === "ego_formation")?.ui_position?.spiral?.order ?? 1,
-  });
+  const settings = await getPackSettings(pack.id);
+  if (settings?.currentNodeId && diff.removed.includes(settings.currentNodeId)) {
+    await updatePackSettings(pack.id, { currentNodeId: firstSpiral.id });
+  }
 
-  // Ensure a UserNodeState row exists per node (for completion + personal notes).
   await ensureUserNodeStateRows();
+  const orphanedNodeIds = await recordContentMeta(url, data);
+  return {
+    seeded: true,
+    reason: "upgraded" as const,
+    packId: pack.id,
+    added: diff.added.map((n) => n.id),
+    updated: diff.updated.map((n) => n.id),
+    removed: diff.removed,
+    orphanedNodeIds,
+  };
+}
 
-  return { seeded: true, reason: "seeded" as const, count: data.nodes.length };
+/**
+ * Re-fetches every installed pack from its source URL (the default pack is always checked).
+ */
+export async function upgradeInstalledPacks() {
+  const urls = new Set([DEFAULT_PACK_URL]);
+  for (const pack of await listInstalledPacks()) urls.add(pack.sourceUrl);
+  const results = [];
+  for (const url of urls) results.push(await seedNodeDefinitionsFromUrl(url));
+  return results;
+}
+
+function packOfFile(data: NodesFile, url: string) {
+  if (data.pack) return data.pack;
+  if (url === DEFAULT_PACK_URL) return DEFAULT_PACK;
+  throw new Error(`${url} has no "pack" header; only the default ${DEFAULT_PACK_URL} may omit it.`);
+}
+
+async function recordContentMeta(url: string, data: NodesFile) {
+  const pack = packOfFile(data, url);
+  const orphanedNodeIds = await findOrphanedNodeIds(pack.id);
+  const content: ContentMeta = {
+    packId: pack.id,
+    title: pack.title,
+    description: pack.description,
+    sourceUrl: url,
+    schemaVersion: data.schema_version,
+    generatedAt: data.generated_at,
+    appliedAt: nowIso(),
+    orphanedNodeIds,
+  };
+  await updatePackSettings(pack.id, { content });
+  return orphanedNodeIds;
 }
 
 /**
@@ -74,9 +214,10 @@ export async function ensureUserNodeStateRows() {
       toAdd.push({
         nodeId: n.id,
         completedAt: null,
+        completions: [],
         progressNotes: "",
         personalizedSummary: "",
-        commitments: {},
+        commitments: [],
         updatedAt: nowIso(),
       });
     }
@@ -93,8 +234,7 @@ export async function upsertGlobalSettings(partial: Partial<AppSettings>) {
   const defaultOpenAiApiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY;
   const next: AppSettings = {
     key,
-    currentNodeId: existing?.currentNodeId,
-    currentSpiralOrder: existing?.currentSpiralOrder,
+    activePackId: existing?.activePackId,
     openAiApiKey: existing?.openAiApiKey ?? defaultOpenAiApiKey,
     modelChat: existing?.modelChat ?? "gpt-5-nano",
     modelExtract: existing?.modelExtract ?? "gpt-5-nano",
@@ -0,0 +1,116 @@
+// summaries.ts
+// Rolling ThreadSummary: once a thread has too many unsummarized turns, older turns are folded
+// into the summary (via /api/summarize + AppSettings.modelSummarize) and only the recent window
+// is sent verbatim to /api/chat.
+
+import { db } from "./db";
+import type { Message, MessageRole, ThreadSummary } from "./types";
+import { openThreadSummary, sealThreadSummary } from "./vault";
+
+// Summarize when more than this many messages are not yet covered by the summary.
+export const SUMMARY_TRIGGER_MESSAGES = 24;
+// Messages always kept verbatim after a summarization pass.
+export const RECENT_WINDOW_MESSAGES = 10;
+
+export interface ChatHistoryItem {
+  role: MessageRole;
+  content: string;
+}
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+export async function getThreadSummary(threadId: string): Promise<ThreadSummary | undefined> {
+  const row = await db.threadSummaries.get(threadId);
+  return row ? openThreadSummary(row) : undefined;
+}
+
+/**
+ * Saves a user edit of the summary text/motifs; coverage bookkeeping is preserved.
+ */
+export async function saveThreadSummary(
+  threadId: string,
+  patch: Pick<ThreadSummary, "summary" | "keyMotifs">
+): Promise<ThreadSummary> {
+  const existing = await getThreadSummary(threadId);
+  const next: ThreadSummary = {
+    ...existing,
+    threadId,
+    summary: patch.summary,
+    keyMotifs: patch.keyMotifs,
+    updatedAt: nowIso(),
+  };
+  await db.threadSummaries.put(await sealThreadSummary(next));
+  return next;
+}
+
+function uncoveredMessages(messages: Message[], summary?: ThreadSummary | null) {
+  const until = summary?.coveredUntil;
+  return until ? messages.filter((m) => m.createdAt > until) : messages;
+}
+
+/**
+ * Folds older turns into the thread summary when the uncovered backlog exceeds the trigger.
+ * Returns the (possibly unchanged) summary.
+ */
+export async function summarizeThreadIfNeeded(
+  threadId: string,
+  messages: Message[],
+  opts: { nodeTitle?: string; apiKey?: string; model?: string } = {}
+): Promise<ThreadSummary | null> {
+  const existing = (await getThreadSummary(threadId)) ?? null;
+  const uncovered = uncoveredMessages(messages, existing);
+  if (uncovered.length <= SUMMARY_TRIGGER_MESSAGES) return existing;
+
+  const toFold = uncovered.slice(0, uncovered.length - RECENT_WINDOW_MESSAGES);
+  const response = await fetch("/api/summarize", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      nodeTitle: opts.nodeTitle,
+      previousSummary: existing?.summary,
+      previousMotifs: existing?.keyMotifs,
+      messages: toFold.map((m) => ({ role: m.role, content: m.content })),
+      apiKey: opts.apiKey,
+      model: opts.model,
+    }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload?.error ?? "Failed to summarize thread.");
+  }
+
+  const data = (await response.json()) as { summary: string; keyMotifs: string[] };
+  const next: ThreadSummary = {
+    threadId,
+    summary: data.summary,
+    keyMotifs: data.keyMotifs ?? [],
+    coveredUntil: toFold[toFold.length - 1].createdAt,
+    coveredCount: (existing?.coveredCount ?? 0) + toFold.length,
+    updatedAt: nowIso(),
+  };
+  await db.threadSummaries.put(await sealThreadSummary(next));
+  return next;
+}
+
+/**
+ * Summary + recent window to send with a chat turn.
+ * If summarization fails, falls back to the existing summary and a capped tail of the thread.
+ */
+export async function buildThreadHistory(
+  threadId: string,
+  messages: Message[],
+  opts: { nodeTitle?: string; apiKey?: string; model?: string } = {}
+): Promise<{ summary: ThreadSummary | null; history: ChatHistoryItem[] }> {
+  let summary: ThreadSummary | null;
+  try {
+    summary = await summarizeThreadIfNeeded(threadId, messages, opts);
+  } catch {
+    summary = (await getThreadSummary(threadId)) ?? null;
+  }
+  const history = uncoveredMessages(messages, summary)
+    .slice(-SUMMARY_TRIGGER_MESSAGES)
+    .map((m) => ({ role: m.role, content: m.content }));
+  return { summary, history };
+}
@@ -0,0 +1,219 @@
+// symbol-extractor.ts
+// Shapes + a deterministic offline extractor for the symbol library pipeline.
+// The /api/extract route uses the model when available and falls back to this stub.
+
+export type SymbolCategory =
+  | "place"
+  | "object"
+  | "person"
+  | "animal"
+  | "action"
+  | "emotion"
+  | "other";
+
+export interface ExtractedSymbol {
+  slug: string;               // becomes SymbolDef.id
+  label: string;
+  category: SymbolCategory;
+  contextSnippet: string;
+  emotionTags: string[];
+  candidateMeanings: string[]; // proposals the user can accept as PersonalSymbolMeaning
+}
+
+export interface ExtractionResult {
+  symbols: ExtractedSymbol[];
+  extractor: "openai" | "stub";
+}
+
+const SNIPPET_MAX = 160;
+const MAX_SYMBOLS = 8;
+
+// Small built-in lexicon: word -> [category, generic candidate meanings].
+const LEXICON: Record<string, [SymbolCategory, string[]]> = {
+  water: ["place", ["emotional depth", "the unconscious", "cleansing or renewal"]],
+  ocean: ["place", ["vastness of feeling", "the unconscious", "being overwhelmed"]],
+  house: ["place", ["the self or psyche", "family structure", "security"]],
+  room: ["place", ["a part of the self", "a life area", "privacy"]],
+  road: ["place", ["life direction", "a transition", "a choice point"]],
+  forest: ["place", ["the unknown", "getting lost", "natural growth"]],
+  school: ["place", ["being evaluated", "learning a lesson", "old performance pressure"]],
+  mountain: ["place", ["an ambition", "an obstacle", "a higher view"]],
+  door: ["object", ["a threshold", "an opportunity", "a boundary"]],
+  key: ["object", ["access", "a solution", "control"]],
+  stairs: ["object", ["progress in stages", "moving between levels of awareness", "effort"]],
+  bridge: ["object", ["a transition", "connection between parts of life", "risk"]],
+  mirror: ["object", ["self-image", "reflection", "how others see you"]],
+  car: ["object", ["agency and drive", "life direction", "loss of control"]],
+  phone: ["object", ["connection", "an awaited message", "being unreachable"]],
+  fire: ["object", ["passion", "anger", "transformation"]],
+  mother: ["person", ["nurture", "dependence", "an inner caretaker"]],
+  father: ["person", ["authority", "protection", "an inner critic"]],
+  teacher: ["person", ["guidance", "evaluation", "an inner authority"]],
+  stranger: ["person", ["an unknown part of yourself", "something new", "threat"]],
+  child: ["person", ["vulnerability", "potential", "an earlier self"]],
+  boss: ["person", ["authority", "pressure", "performance demands"]],
+  dog: ["animal", ["loyalty", "instinct", "protection"]],
+  snake: ["animal", ["transformation", "hidden threat", "instinctual energy"]],
+  cat: ["animal", ["independence", "intuition", "aloofness"]],
+  bird: ["animal", ["freedom", "perspective", "a message"]],
+  wolf: ["animal", ["wildness", "threat", "belonging to a pack"]],
+  falling: ["action", ["loss of control", "letting go", "fear of failure"]],
+  flying: ["action", ["freedom", "escape", "a new perspective"]],
+  chased: ["action", ["avoidance", "an unfaced fear", "pressure"]],
+  drowning: ["action", ["being overwhelmed", "emotional flooding", "needing support"]],
+  lost: ["action", ["uncertainty", "lack of direction", "searching"]],
+  darkness: ["other", ["the unknown", "the shadow", "not-yet-seen material"]],
+};
+
+const EMOTION_WORDS: Record<string, string> = {
+  afraid: "fear",
+  scared: "fear",
+  terrified: "fear",
+  fear: "fear",
+  anxious: "anxiety",
+  nervous: "anxiety",
+  worried: "anxiety",
+  sad: "sadness",
+  crying: "sadness",
+  grief: "sadness",
+  angry: "anger",
+  furious: "anger",
+  rage: "anger",
+  ashamed: "shame",
+  embarrassed: "shame",
+  guilty: "guilt",
+  happy: "joy",
+  joy: "joy",
+  relieved: "relief",
+  calm: "calm",
+  peaceful: "calm",
+  confused: "confusion",
+  curious: "curiosity",
+  lonely: "loneliness",
+};
+
+export function slugifySymbol(label: string) {
+  return label
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function singular(word: string) {
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("ss")) return word;
+  if (word.endsWith("s")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Maps a free-form term (e.g. a node's symbol_focus entry "mirrors") to the slug used as SymbolDef.id.
+ */
+export function symbolSlugForTerm(term: string) {
+  return slugifySymbol(singular(term.trim().toLowerCase()));
+}
+
+function splitSentences(text: string) {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function clip(text: string) {
+  return text.length > SNIPPET_MAX ? `${text.slice(0, SNIPPET_MAX - 1)}…` : text;
+}
+
+function tokens(sentence: string) {
+  return sentence.toLowerCase().match(/[a-z']+/g) ?? [];
+}
+
+/**
+ * Deterministic, network-free extractor.
+ * Matches the built-in lexicon plus any extra vocabulary (node symbol_focus, known symbol labels).
+ * Same input always yields the same output, in order of first appearance.
+ */
+export function stubExtractSymbols(text: string, vocabulary: string[] = []): ExtractionResult {
+  const extra = new Map<string, string>();
+  let longestPhrase = 1;
+  for (const v of vocabulary) {
+    const slug = symbolSlugForTerm(v);
+    if (!slug) continue;
+    extra.set(slug, v);
+    longestPhrase = Math.max(longestPhrase, tokens(v).length);
+  }
+
+  const found = new Map<string, ExtractedSymbol>();
+  for (const sentence of splitSentences(text)) {
+    const words = tokens(sentence);
+    const emotionTags = Array.from(
+      new Set(words.map((w) => EMOTION_WORDS[w]).filter((w): w is string => Boolean(w)))
+    );
+    for (let i = 0; i < words.length; i++) {
+      // Multi-word vocabulary ("red door") is matched on the token sequence, longest phrase first;
+      // its words are then not matched again on their own.
+      let span = 1;
+      for (let n = Math.min(longestPhrase, words.length - i); n > 1; n--) {
+        if (extra.has(symbolSlugForTerm(words.slice(i, i + n).join(" ")))) {
+          span = n;
+          break;
+        }
+      }
+      const word = words.slice(i, i + span).join(" ");
+      i += span - 1;
+      const base = singular(word);
+      const slug = slugifySymbol(base);
+      if (!slug || found.has(slug)) continue;
+      const entry = span === 1 ? LEXICON[base] ?? LEXICON[word] : undefined;
+      if (!entry && !extra.has(slug)) continue;
+      const [category, candidateMeanings] = entry ?? ["other", []];
+      found.set(slug, {
+        slug,
+        label: extra.get(slug) ?? base,
+        category,
+        contextSnippet: clip(sentence),
+        emotionTags,
+        candidateMeanings,
+      });
+      if (found.size >= MAX_SYMBOLS) return { symbols: Array.from(found.values()), extractor: "stub" };
+    }
+  }
+  return { symbols: Array.from(found.values()), extractor: "stub" };
+}
+
+const CATEGORIES: SymbolCategory[] = ["place", "object", "person", "animal", "action", "emotion", "other"];
+
+/**
+ * Coerces untrusted model JSON into ExtractedSymbol[] (drops anything malformed).
+ */
+export function normalizeExtractedSymbols(raw: unknown): ExtractedSymbol[] {
+  const list = (raw as { symbols?: unknown })?.symbols;
+  if (!Array.isArray(list)) return [];
+  const out: ExtractedSymbol[] = [];
+  const seen = new Set<string>();
+  for (const item of list) {
+    if (!item || typeof item !== "object") continue;
+    const r = item as Record<string, unknown>;
+    const label = typeof r.label === "string" ? r.label.trim() : "";
+    const slug = slugifySymbol(typeof r.slug === "string" && r.slug ? r.slug : label);
+    if (!label || !slug || seen.has(slug)) continue;
+    seen.add(slug);
+    const category = CATEGORIES.includes(r.category as SymbolCategory)
+      ? (r.category as SymbolCategory)
+      : "other";
+    const strings = (v: unknown) =>
+      Array.isArray(v) ? v.filter((x): x is string => typeof x === "string" && x.trim() !== "") : [];
+    out.push({
+      slug,
+      label,
+      category,
+      contextSnippet: clip(typeof r.contextSnippet === "string" ? r.contextSnippet : ""),
+      emotionTags: strings(r.emotionTags),
+      candidateMeanings: strings(r.candidateMeanings).slice(0, 3),
+    });
+    if (out.length >= MAX_SYMBOLS) break;
+  }
+  return out;
+}
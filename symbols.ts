@@ -0,0 +1,410 @@
+// symbols.ts
+// Symbol library pipeline: extraction pass per user message -> SymbolDef / SymbolOccurrence rows,
+// plus candidate meanings the user can accept into PersonalSymbolMeaning.
+
+import { db } from "./db";
+import { symbolSlugForTerm, type ExtractedSymbol, type ExtractionResult } from "./symbol-extractor";
+import type {
+  Message,
+  PersonalSymbolMeaning,
+  SymbolDef,
+  SymbolMeaningCandidate,
+  SymbolOccurrence,
+} from "./types";
+import { openOccurrences, openSymbolMeaning, sealMessage, sealOccurrences, sealSymbolMeaning } from "./vault";
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+export async function getAllSymbols(): Promise<SymbolDef[]> {
+  return db.symbols.toArray();
+}
+
+export function getMessageSymbolCandidates(message: Message): SymbolMeaningCandidate[] {
+  const raw = message.metadata?.symbolCandidates;
+  return Array.isArray(raw) ? (raw as SymbolMeaningCandidate[]) : [];
+}
+
+/**
+ * Upserts SymbolDef rows by slug (a merged-away slug resolves to its target via aliases)
+ * and appends one SymbolOccurrence per symbol.
+ * Returns candidates for symbols that have no PersonalSymbolMeaning yet.
+ */
+export async function recordExtractedSymbols(
+  symbols: ExtractedSymbol[],
+  ctx: { messageId: string; nodeId: string }
+): Promise<SymbolMeaningCandidate[]> {
+  if (!symbols.length) return [];
+  const timestamp = nowIso();
+  // Snippets quote the message verbatim; sealed before the transaction (WebCrypto would end it).
+  const occurrences = await sealOccurrences(
+    symbols.map((s) => ({
+      id: crypto.randomUUID(),
+      symbolId: s.slug,
+      messageId: ctx.messageId,
+      nodeId: ctx.nodeId,
+      contextSnippet: s.contextSnippet,
+      emotionTags: s.emotionTags,
+      createdAt: timestamp,
+    }))
+  );
+
+  return db.transaction(
+    "rw",
+    [db.symbols, db.symbolOccurrences, db.personalSymbolMeanings],
+    async () => {
+      // A slug merged into another symbol resolves to the merge target.
+      const existing = await Promise.all(
+        symbols.map(
+          async (s) => (await db.symbols.get(s.slug)) ?? (await db.symbols.where("aliases").equals(s.slug).first())
+        )
+      );
+      const ids = symbols.map((s, i) => existing[i]?.id ?? s.slug);
+      const toPut: SymbolDef[] = [];
+      symbols.forEach((s, i) => {
+        const row = existing[i];
+        if (!row) {
+          toPut.push({ id: s.slug, label: s.label, category: s.category, createdAt: timestamp });
+        } else if (!row.category) {
+          toPut.push({ ...row, category: s.category });
+        }
+      });
+      if (toPut.length) await db.symbols.bulkPut(toPut);
+
+      await db.symbolOccurrences.bulkAdd(occurrences.map((o, i) => ({ ...o, symbolId: ids[i] })));
+
+      const meanings = await db.personalSymbolMeanings.bulkGet(ids);
+      return symbols
+        .map((s, i) => ({ s, i }))
+        .filter(({ s, i }) => !meanings[i]?.personalMeaning && s.candidateMeanings.length)
+        .map(({ s, i }) => ({
+          symbolId: ids[i],
+          label: existing[i]?.label ?? s.label,
+          meanings: s.candidateMeanings,
+        }));
+    }
+  );
+}
+
+/**
+ * Runs the extraction pass for a persisted user message.
+ * Candidates are stored on the message metadata so they survive reloads.
+ */
+export async function extractSymbolsForMessage(
+  message: Message,
+  opts: { nodeId: string; symbolFocus?: string[]; apiKey?: string; model?: string }
+): Promise<SymbolMeaningCandidate[]> {
+  const known = await getAllSymbols();
+
+  const response = await fetch("/api/extract", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      messageText: message.content,
+      nodeId: opts.nodeId,
+      symbolFocus: opts.symbolFocus ?? [],
+      knownSymbols: known.map((s) => s.label),
+      apiKey: opts.apiKey,
+      model: opts.model,
+    }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload?.error ?? "Symbol extraction failed.");
+  }
+
+  const result = (await response.json()) as ExtractionResult;
+  const candidates = await recordExtractedSymbols(result.symbols ?? [], {
+    messageId: message.id,
+    nodeId: opts.nodeId,
+  });
+
+  if (candidates.length) {
+    await setMessageSymbolCandidates(message.id, candidates);
+  }
+  return candidates;
+}
+
+async function setMessageSymbolCandidates(messageId: string, candidates: SymbolMeaningCandidate[]) {
+  const row = await db.messages.get(messageId);
+  if (!row) return;
+  await db.messages.put(
+    await sealMessage({
+      ...row,
+      metadata: { ...row.metadata, symbolCandidates: candidates },
+    })
+  );
+}
+
+/**
+ * Accepts a meaning into the personal library (creating or replacing personalMeaning).
+ */
+export async function acceptSymbolMeaning(
+  symbolId: string,
+  personalMeaning: string,
+  originMessageId?: string
+): Promise<PersonalSymbolMeaning> {
+  const existing = await db.personalSymbolMeanings.get(symbolId);
+  const origins = new Set(existing?.originMessageIds ?? []);
+  if (originMessageId) origins.add(originMessageId);
+  const next: PersonalSymbolMeaning = {
+    ...existing,
+    symbolId,
+    personalMeaning,
+    originMessageIds: Array.from(origins),
+    confidence: existing?.confidence ?? 0.5,
+    lastUpdated: nowIso(),
+  };
+  await db.personalSymbolMeanings.put(await sealSymbolMeaning(next));
+  if (originMessageId) await dismissSymbolCandidate(originMessageId, symbolId);
+  return next;
+}
+
+/**
+ * Removes a pending candidate from a message without touching the library.
+ */
+export async function dismissSymbolCandidate(messageId: string, symbolId: string) {
+  const row = await db.messages.get(messageId);
+  if (!row) return;
+  const remaining = getMessageSymbolCandidates(row).filter((c) => c.symbolId !== symbolId);
+  await db.messages.put(
+    await sealMessage({
+      ...row,
+      metadata: { ...row.metadata, symbolCandidates: remaining },
+    })
+  );
+}
+
+// Library browsing + editing
+
+export interface SymbolOccurrenceView extends SymbolOccurrence {
+  threadId: string | null; // resolved from Message.threadId for jump-to-message links
+}
+
+export interface SymbolLibraryEntry {
+  symbol: SymbolDef;
+  meaning: PersonalSymbolMeaning | null;
+  occurrences: SymbolOccurrenceView[];
+}
+
+export type SymbolMeaningPatch = Partial<
+  Pick<PersonalSymbolMeaning, "personalMeaning" | "valence" | "confidence" | "linkedDomains">
+>;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Every symbol with its personal meaning and occurrences (newest first), sorted by label.
+ */
+export async function getSymbolLibrary(): Promise<SymbolLibraryEntry[]> {
+  const [symbols, meanings, occurrences] = await Promise.all([
+    db.symbols.toArray(),
+    db.personalSymbolMeanings.toArray().then((rows) => Promise.all(rows.map(openSymbolMeaning))),
+    db.symbolOccurrences.orderBy("createdAt").reverse().toArray().then(openOccurrences),
+  ]);
+
+  const messageIds = Array.from(new Set(occurrences.map((o) => o.messageId)));
+  const messages = await db.messages.bulkGet(messageIds);
+  const threadByMessage = new Map<string, string>();
+  for (const m of messages) if (m) threadByMessage.set(m.id, m.threadId);
+
+  const meaningById = new Map(meanings.map((m) => [m.symbolId, m]));
+  const occurrencesById = new Map<string, SymbolOccurrenceView[]>();
+  for (const o of occurrences) {
+    const list = occurrencesById.get(o.symbolId) ?? [];
+    list.push({ ...o, threadId: threadByMessage.get(o.messageId) ?? null });
+    occurrencesById.set(o.symbolId, list);
+  }
+
+  return symbols
+    .map((symbol) => ({
+      symbol,
+      meaning: meaningById.get(symbol.id) ?? null,
+      occurrences: occurrencesById.get(symbol.id) ?? [],
+    }))
+    .sort((a, b) => a.symbol.label.localeCompare(b.symbol.label));
+}
+
+export async function updateSymbolDef(
+  symbolId: string,
+  patch: Partial<Pick<SymbolDef, "label" | "category" | "globalNotes">>
+) {
+  const row = await db.symbols.get(symbolId);
+  if (!row) throw new Error(`Missing SymbolDef for ${symbolId}`);
+  await db.symbols.put({ ...row, ...patch, id: symbolId });
+}
+
+/**
+ * Creates or updates a PersonalSymbolMeaning (valence clamped to -2..+2, confidence to 0..1).
+ */
+export async function updateSymbolMeaning(symbolId: string, patch: SymbolMeaningPatch) {
+  const existing = await db.personalSymbolMeanings.get(symbolId);
+  const next: PersonalSymbolMeaning = {
+    ...existing,
+    ...patch,
+    symbolId,
+    personalMeaning: patch.personalMeaning ?? existing?.personalMeaning ?? "",
+    lastUpdated: nowIso(),
+  };
+  if (next.valence != null) next.valence = clamp(Math.round(next.valence), -2, 2);
+  if (next.confidence != null) next.confidence = clamp(next.confidence, 0, 1);
+  await db.personalSymbolMeanings.put(await sealSymbolMeaning(next));
+  return openSymbolMeaning(next);
+}
+
+/**
+ * Removes a symbol's PersonalSymbolMeaning; the symbol and its occurrences stay.
+ */
+export async function deleteSymbolMeaning(symbolId: string) {
+  await db.personalSymbolMeanings.delete(symbolId);
+}
+
+/**
+ * Merges a duplicate symbol into another: occurrences are re-pointed,
+ * meanings are combined (target wins), the source's slugs become aliases of the target,
+ * then the source symbol is removed.
+ */
+export async function mergeSymbols(sourceId: string, targetId: string) {
+  if (sourceId === targetId) return;
+  await db.transaction(
+    "rw",
+    [db.symbols, db.personalSymbolMeanings, db.symbolOccurrences],
+    async () => {
+      const [source, target] = await db.symbols.bulkGet([sourceId, targetId]);
+      if (!source || !target) throw new Error(`Cannot merge ${sourceId} into ${targetId}: missing symbol`);
+
+      await db.symbolOccurrences.where("symbolId").equals(sourceId).modify({ symbolId: targetId });
+
+      const [sourceMeaning, targetMeaning] = await db.personalSymbolMeanings.bulkGet([sourceId, targetId]);
+      if (sourceMeaning) {
+        const merged: PersonalSymbolMeaning = targetMeaning
+          ? {
+              ...targetMeaning,
+              personalMeaning: targetMeaning.personalMeaning || sourceMeaning.personalMeaning,
+              linkedDomains: Array.from(
+                new Set([...(targetMeaning.linkedDomains ?? []), ...(sourceMeaning.linkedDomains ?? [])])
+              ),
+              originMessageIds: Array.from(
+                new Set([...(targetMeaning.originMessageIds ?? []), ...(sourceMeaning.originMessageIds ?? [])])
+              ),
+              lastUpdated: nowIso(),
+            }
+          : { ...sourceMeaning, symbolId: targetId, lastUpdated: nowIso() };
+        await db.personalSymbolMeanings.put(merged);
+        await db.personalSymbolMeanings.delete(sourceId);
+      }
+
+      // Later extractions of the source's slug (or its current label) land on the target.
+      const aliases = new Set([...(target.aliases ?? []), ...(source.aliases ?? []), sourceId]);
+      const labelSlug = symbolSlugForTerm(source.label);
+      if (labelSlug) aliases.add(labelSlug);
+      aliases.delete(targetId);
+      await db.symbols.put({
+        ...target,
+        globalNotes: target.globalNotes || source.globalNotes,
+        aliases: Array.from(aliases),
+      });
+      await db.symbols.delete(sourceId);
+    }
+  );
+}
+
+/**
+ * Deletes a symbol together with its meaning and occurrences.
+ */
+export async function deleteSymbol(symbolId: string) {
+  await db.transaction(
+    "rw",
+    [db.symbols, db.personalSymbolMeanings, db.symbolOccurrences],
+    async () => {
+      await db.symbolOccurrences.where("symbolId").equals(symbolId).delete();
+      await db.personalSymbolMeanings.delete(symbolId);
+      await db.symbols.delete(symbolId);
+    }
+  );
+}
+
+// Prompt context
+
+export interface PromptSymbolMeaning {
+  symbolId: string;
+  label: string;
+  personalMeaning: string;
+  valence?: number;
+  confidence?: number;
+  linkedDomains?: string[];
+  reason: "focus" | "recent" | "focus+recent";
+}
+
+const RECENT_MESSAGE_WINDOW = 40;
+
+/**
+ * Relevance-ranked personal meanings for a chat turn:
+ * symbols in the node's symbol_focus and symbols seen recently in the thread rank first,
+ * ties broken by confidence. The route applies its own token budget on top of `limit`.
+ */
+export async function getRelevantSymbolMeanings(opts: {
+  symbolFocus?: string[];
+  threadId?: string | null;
+  limit?: number;
+}): Promise<PromptSymbolMeaning[]> {
+  const limit = opts.limit ?? 24;
+  // Filter after opening: a sealed empty meaning is non-empty ciphertext.
+  const meanings = (
+    await Promise.all((await db.personalSymbolMeanings.toArray()).map(openSymbolMeaning))
+  ).filter((m) => m.personalMeaning.trim());
+  if (!meanings.length) return [];
+
+  const focus = new Set((opts.symbolFocus ?? []).map(symbolSlugForTerm).filter(Boolean));
+
+  // Recency rank: 1 for the newest message in the window, approaching 0 for the oldest.
+  const recency = new Map<string, number>();
+  if (opts.threadId) {
+    const recentMessages = (
+      await db.messages.where("threadId").equals(opts.threadId).sortBy("createdAt")
+    ).slice(-RECENT_MESSAGE_WINDOW);
+    const rankByMessage = new Map(
+      recentMessages.map((m, i) => [m.id, (i + 1) / recentMessages.length])
+    );
+    if (rankByMessage.size) {
+      const occurrences = await db.symbolOccurrences
+        .where("messageId")
+        .anyOf(Array.from(rankByMessage.keys()))
+        .toArray();
+      for (const o of occurrences) {
+        const rank = rankByMessage.get(o.messageId) ?? 0;
+        recency.set(o.symbolId, Math.max(recency.get(o.symbolId) ?? 0, rank));
+      }
+    }
+  }
+
+  const symbols = await db.symbols.bulkGet(meanings.map((m) => m.symbolId));
+  const labelById = new Map<string, string>();
+  for (const s of symbols) if (s) labelById.set(s.id, s.label);
+
+  return meanings
+    .map((m) => {
+      const inFocus = focus.has(m.symbolId);
+      const recent = recency.get(m.symbolId);
+      const score =
+        (inFocus ? 2 : 0) + (recent != null ? 1 + recent : 0) + (m.confidence ?? 0.5) * 0.5;
+      const reason: PromptSymbolMeaning["reason"] =
+        inFocus && recent != null ? "focus+recent" : inFocus ? "focus" : "recent";
+      return { m, score, relevant: inFocus || recent != null, reason };
+    })
+    .filter((x) => x.relevant)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ m, reason }) => ({
+      symbolId: m.symbolId,
+      label: labelById.get(m.symbolId) ?? m.symbolId,
+      personalMeaning: m.personalMeaning,
+      valence: m.valence,
+      confidence: m.confidence,
+      linkedDomains: m.linkedDomains,
+      reason,
+    }));
+}
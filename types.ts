@@ -1,71 +1,58 @@
 // types.ts
 // Shared types for the local-first individuation app.
-// Keep this file aligned with nodes.schema.json.
-
-export type NodeType = "spiral" | "tree" | "hybrid";
-
-export type NodePhase =
-  | "ego"
-  | "persona"
-  | "shadow"
-  | "inner_other"
-  | "disintegration"
-  | "recenter"
-  | "integration"
-  | "reentry"
-  | "domain"
-  | "meta";
-
-export type NodeDomain = "meta" | "inner" | "work" | "relationships" | "meaning" | "body";
-
-export interface SpiralPosition {
-  theta: number;
-  radius: number;
-  order: number;
+// Node content types are generated from nodes.schema.json (see node-types.generated.ts).
+
+import type { NodePhase } from "./node-types.generated";
+
+export type {
+  NodeType,
+  NodePhase,
+  NodeDomain,
+  SpiralPosition,
+  TreePosition,
+  UIPosition,
+  NodeDefinition,
+  NodesFile,
+  ContentPackInfo,
+  DependencyRule,
+  AllOfDependencyRule,
+  AnyOfDependencyRule,
+  SoftDependencyRule,
+  PhaseGateRule,
+} from "./node-types.generated";
+
+export interface NodeCommitment {
+  id: string;                    // uuid
+  text: string;
+  dueDate?: string | null;       // ISO date (YYYY-MM-DD)
+  done: boolean;
+  doneAt?: string | null;        // ISO datetime
+  createdAt: string;             // ISO datetime
 }
 
-export interface TreePosition {
-  x: number;
-  y: number;
-  branch: string;
-  level: number;
-  parent_id: string | null;
+export interface CompletionAnswer {
+  prompt: string;                // NodeDefinition.personalization_prompts entry
+  answer: string;
+  answeredAt: string;            // ISO datetime
 }
 
-export interface UIPosition {
-  spiral?: SpiralPosition;
-  tree?: TreePosition;
-}
-
-export interface NodeDefinition {
-  id: string;
-  title: string;
-  type: NodeType;
-  phase: NodePhase;
-  domain: NodeDomain;
-  description: string;
-  dependencies: string[];
-  tags: string[];
-  prompt_template: string;
-  ui_position: UIPosition;
-  version: number;
-
-  personalization_prompts?: string[];
-  symbol_focus?: string[];
-}
-
-export interface NodesFile {
-  schema_version: number;
-  generated_at?: string;
-  nodes: NodeDefinition[];
+// One completion of a node; nodes can be completed again after a revisit ("pass 2", …).
+export interface NodeCompletionPass {
+  pass: number;                  // 1-based
+  completedAt: string;           // ISO datetime
+  notes?: string;
 }
 
 export interface UserNodeState {
   nodeId: string;                // same as NodeDefinition.id
-  completedAt?: string | null;   // ISO datetime
+  completedAt?: string | null;   // latest pass (ISO datetime); null when never completed
+  completions?: NodeCompletionPass[];      // completion history, oldest first
+  revisitingSince?: string | null;         // reopened for another pass; dependents stay unlocked
   progressNotes?: string;
   personalizedSummary?: string;
-  commitments?: Record<string, unknown>;
+  commitments?: NodeCommitment[];
+  completionAnswers?: CompletionAnswer[];  // from the completion dialog
+  completionChecklist?: string[];          // checked completion_checklist items
   updatedAt: string;             // ISO datetime
 }
 
@@ -93,6 +80,8 @@ export interface ThreadSummary {
   threadId: string;
   summary: string;
   keyMotifs: string[];
+  coveredUntil?: string;   // createdAt of the last message folded into the summary
+  coveredCount?: number;   // number of messages folded into the summary
   updatedAt: string;
 }
 
@@ -102,6 +91,7 @@ export interface SymbolDef {
   label: string;         // display label
   category?: string;     // place/object/person/animal/action/emotion/other
   globalNotes?: string;  // optional, brief
+  aliases?: string[];    // slugs of symbols merged into this one
   createdAt: string;
 }
 
@@ -125,24 +115,94 @@ export interface SymbolOccurrence {
   createdAt: string;   // ISO datetime
 }
 
+// Proposed meanings awaiting user review (stored on Message.metadata.symbolCandidates)
+export interface SymbolMeaningCandidate {
+  symbolId: string;    // SymbolDef.id
+  label: string;
+  meanings: string[];
+}
+
+// Passphrase vault (stored on the AppSettings row with key "vault")
+export interface VaultConfig {
+  salt: string;              // base64, PBKDF2 salt
+  iterations: number;        // PBKDF2 iterations (SHA-256)
+  verifier: string;          // known plaintext encrypted with the vault key
+  autoLockMinutes: number;   // 0 = never
+  createdAt: string;         // ISO datetime
+}
+
+// Installed content pack (stored on the pack's AppSettings row, key "pack:<packId>")
+export interface ContentMeta {
+  packId: string;              // ContentPackInfo.id, namespace of the pack's node ids
+  title: string;
+  description?: string;
+  sourceUrl: string;           // where the pack's nodes.json is fetched from
+  schemaVersion: number;       // NodesFile.schema_version
+  generatedAt?: string;        // NodesFile.generated_at
+  appliedAt: string;           // ISO datetime of the last seed/upgrade
+  orphanedNodeIds: string[];   // user data referencing nodes no longer in nodes.json
+}
+
 // App settings (single-user local-first)
 export interface AppSettings {
-  key: string;                 // settings key (e.g. "global")
-  currentNodeId?: string;      // where user "is" on the journey (optional)
-  currentSpiralOrder?: number; // optional tracking
+  key: string;                 // settings key ("global", "vault" or "pack:<packId>")
+  activePackId?: string;       // pack shown on the journey map (only on the "global" row)
+  currentNodeId?: string;      // where user "is" on the pack's journey (only on "pack:<packId>" rows)
+  currentSpiralOrder?: number; // optional tracking (only on "pack:<packId>" rows)
   openAiApiKey?: string;       // BYOK (store locally)
   modelChat?: string;          // e.g. "gpt-5-nano" (your chosen runtime model)
   modelExtract?: string;       // e.g. "gpt-5-nano" or a cheaper model later
   modelSummarize?: string;
+  vault?: VaultConfig;         // only on the "vault" row
+  content?: ContentMeta;       // only on "pack:<packId>" rows
   updatedAt: string;           // ISO datetime
 }
 
 // Computed UI status (not stored by default)
 export type NodeStatus = "locked" | "available" | "next" | "completed";
 
+export type RecommendationSignalId =
+  | "spiral-order"
+  | "tag-overlap"
+  | "domain-balance"
+  | "thread-recency"
+  | "unresolved-commitments"
+  | "symbol-motifs";
+
+export interface RecommendationSignalScore {
+  signal: RecommendationSignalId;
+  score: number;         // 0..1
+  weight: number;
+  contribution: number;  // score * weight
+  reason: string;        // human-readable explanation
+}
+
+export interface NodeRecommendation {
+  nodeId: string;
+  rank: number;          // 1 = recommended next
+  score: number;         // sum of signal contributions
+  signals: RecommendationSignalScore[];  // strongest first; signals that scored 0 are omitted
+}
+
+// One prerequisite clause that is not met yet (see dependency-rules.ts)
+export interface UnmetDependencyClause {
+  kind: "all" | "any" | "phase";
+  ruleIndex: number | null;  // index into dependency_rules; null for the flat dependencies list
+  options: string[];         // node ids that count towards the clause
+  pending: string[];         // options not completed yet
+  required: number;          // completed options needed
+  completed: number;
+  phase?: NodePhase;         // phase gates only
+}
+
 export interface ComputedNodeStatus {
   nodeId: string;
   status: NodeStatus;
-  unmetDependencies?: string[];
-  recommendedReason?: string;
+  unmetDependencies?: string[];         // pending node ids of the unmet clauses
+  unmetClauses?: UnmetDependencyClause[];
+  unmetSoftDependencies?: string[];     // recommended-first nodes not completed yet
+  recommendedReason?: string;           // strongest reason of the recommended next node
+  recommendation?: NodeRecommendation;  // set for the top-N ranked available nodes
+  passes?: number;                      // completed passes (history length)
+  revisiting?: boolean;                 // reopened after a completed pass
 }
@@ -0,0 +1,80 @@
+/* validate-nodes-cli.ts
+   CLI wrapper around validate-nodes.ts; the JSON Schema pass uses the schema file given on the command line.
+
+   Usage:
+     npx ts-node validate-nodes-cli.ts [--json] [--rule <id>=<error|warning|off>]... [./nodes.json] [./nodes.schema.json]
+
+   Exit codes: 0 = valid (warnings allowed), 1 = validation errors, 2 = usage / unreadable input.
+*/
+
+import fs from "node:fs";
+import { NODE_LINT_RULES, type NodeLintConfig, type NodeLintRuleId, type RuleSeverity } from "./node-lint";
+import { ajvSchemaValidator, formatDiagnostic, hasErrors, validateNodesFile } from "./validate-nodes";
+
+function readJson(p: string) {
+  return JSON.parse(fs.readFileSync(p, "utf8"));
+}
+
+function usage(msg: string): never {
+  console.error(msg);
+  process.exit(2);
+}
+
+function parseArgs(args: string[]) {
+  const paths: string[] = [];
+  const lint: NodeLintConfig = {};
+  let asJson = false;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--json") {
+      asJson = true;
+    } else if (arg === "--rule") {
+      const [id, severity] = (args[++i] ?? "").split("=");
+      if (!NODE_LINT_RULES.some((r) => r.id === id)) {
+        usage(`Unknown rule '${id}'. Rules: ${NODE_LINT_RULES.map((r) => r.id).join(", ")}`);
+      }
+      if (severity !== "error" && severity !== "warning" && severity !== "off") {
+        usage(`Invalid severity for ${id}: '${severity}' (expected error, warning or off)`);
+      }
+      lint[id as NodeLintRuleId] = severity as RuleSeverity;
+    } else if (arg.startsWith("--")) {
+      usage(`Unknown option ${arg}`);
+    } else {
+      paths.push(arg);
+    }
+  }
+  return { asJson, lint, nodesPath: paths[0] ?? "./nodes.json", schemaPath: paths[1] ?? "./nodes.schema.json" };
+}
+
+function main() {
+  const { asJson, lint, nodesPath, schemaPath } = parseArgs(process.argv.slice(2));
+
+  let nodesFile: unknown;
+  let schema: object;
+  try {
+    nodesFile = readJson(nodesPath);
+    schema = readJson(schemaPath);
+  } catch (error) {
+    usage(`Cannot read input: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const diagnostics = validateNodesFile(nodesFile, { validateSchema: ajvSchemaValidator(schema), lint });
+  const failed = hasErrors(diagnostics);
+
+  if (asJson) {
+    console.log(JSON.stringify({ ok: !failed, diagnostics }, null, 2));
+  } else {
+    for (const d of diagnostics) {
+      (d.severity === "error" ? console.error : console.warn)(formatDiagnostic(d));
+    }
+    console.log(
+      failed
+        ? `\nVALIDATION FAILED: ${diagnostics.filter((d) => d.severity === "error").length} error(s).\n`
+        : "\nOK: nodes.json passes schema + integrity checks.\n"
+    );
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main();
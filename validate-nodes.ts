@@ -1,142 +1,359 @@
 /* validate-nodes.ts
-   Validates nodes.json against nodes.schema.json + extra integrity checks.
+   Validation library for nodes.json: JSON Schema (nodes.schema.json) + integrity checks.
+   Pure (no fs / process access) so the seeder, the authoring editor and the CLI share it;
+   every check runs and reports, nothing exits early. Semantic lint rules live in node-lint.ts.
 
-   Usage:
-     npm i -D ts-node typescript @types/node ajv ajv-formats
-     npx ts-node validate-nodes.ts ./nodes.json ./nodes.schema.json
+   CLI: see validate-nodes-cli.ts
 */
 
-import fs from "node:fs";
-import Ajv from "ajv";
+import Ajv2020 from "ajv/dist/2020";
 import addFormats from "ajv-formats";
+import nodesSchema from "./nodes.schema.json";
+import { lintNodes, type NodeLintConfig, type NodeLintRuleId } from "./node-lint";
+import { dependencyEdges, phaseGateMembers, referencedNodeIds } from "./dependency-rules";
+import type { NodeDefinition } from "./types";
 
-type NodesFile = {
-  schema_version: number;
-  generated_at?: string;
-  nodes: Array<any>;
+export type DiagnosticSeverity = "error" | "warning";
+
+export type DiagnosticCode =
+  | "schema"
+  | "duplicate-id"
+  | "missing-dependency"
+  | "dependency-cycle"
+  | "unsatisfiable-rule"
+  | "missing-parent"
+  | "parent-type"
+  | "tree-proximity"
+  | "spiral-proximity"
+  | NodeLintRuleId;
+
+export interface NodeDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  nodeId?: string;
+  path: string;      // JSON path into the nodes file, e.g. $.nodes[3].dependencies[1]
+}
+
+export interface SchemaIssue {
+  path: string;      // JSON path
+  message: string;
+}
+
+/**
+ * Pluggable schema check; defaults to Ajv against the bundled nodes.schema.json.
+ * The CLI passes a validator compiled from the schema file it was given.
+ */
+export type SchemaValidator = (file: unknown) => SchemaIssue[];
+
+export interface ValidateNodesOptions {
+  validateSchema?: SchemaValidator;
+  // Per-rule severity overrides for node-lint.ts; false skips the lint rules entirely.
+  lint?: NodeLintConfig | false;
+}
+
+export const TREE_MIN_DIST = 8;
+export const SPIRAL_MIN_DIST = 12;
+
+type AnyNode = {
+  id?: unknown;
+  type?: unknown;
+  phase?: unknown;
+  dependencies?: unknown;
+  dependency_rules?: unknown;
+  ui_position?: {
+    spiral?: { theta: number; radius: number };
+    tree?: { x: number; y: number; parent_id?: string | null };
+  };
 };
 
-function readJson(p: string) {
-  return JSON.parse(fs.readFileSync(p, "utf8"));
+// JSON Schema (Ajv, draft 2020-12 like nodes.schema.json)
+
+/**
+ * Ajv-backed schema check for any schema (the CLI passes a schema file from disk).
+ */
+export function ajvSchemaValidator(schema: object): SchemaValidator {
+  const ajv = new Ajv2020({ allErrors: true, strict: false });
+  addFormats(ajv);
+  const validate = ajv.compile(schema);
+  return (file) => {
+    if (validate(file)) return [];
+    return (validate.errors ?? []).map((e) => ({
+      path: pointerToJsonPath(e.instancePath),
+      message:
+        e.keyword === "additionalProperties"
+          ? `unknown property '${(e.params as { additionalProperty: string }).additionalProperty}'`
+          : e.keyword === "enum"
+            ? `must be one of: ${(e.params as { allowedValues: unknown[] }).allowedValues.join(", ")}`
+            : e.message ?? "is invalid",
+    }));
+  };
 }
 
-function fail(msg: string): never {
-  console.error(`\nVALIDATION FAILED: ${msg}\n`);
-  process.exit(1);
+let bundledValidator: SchemaValidator | null = null;
+
+// Compiled on first use against the bundled nodes.schema.json.
+export const defaultSchemaValidator: SchemaValidator = (file) => {
+  bundledValidator ??= ajvSchemaValidator(nodesSchema);
+  return bundledValidator(file);
+};
+
+/**
+ * "/nodes/3/title" (JSON pointer, as reported by Ajv) -> "$.nodes[3].title"
+ */
+export function pointerToJsonPath(pointer: string) {
+  return (
+    "$" +
+    pointer
+      .split("/")
+      .slice(1)
+      .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .map((part) => (/^\d+$/.test(part) ? `[${part}]` : `.${part}`))
+      .join("")
+  );
 }
 
-function warn(msg: string) {
-  console.warn(`WARN: ${msg}`);
+// Integrity checks
+
+function distance(a: { x: number; y: number }, b: { x: number; y: number }) {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+function polarToXY(s: { theta: number; radius: number }) {
+  return { x: s.radius * Math.cos(s.theta), y: s.radius * Math.sin(s.theta) };
+}
+
+function cycleKey(cycle: string[]) {
+  return Array.from(new Set(cycle)).sort().join(",");
 }
 
 function detectCycles(ids: Set<string>, depsMap: Map<string, string[]>) {
   const visiting = new Set<string>();
   const visited = new Set<string>();
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
 
   function dfs(id: string, stack: string[]) {
     if (visiting.has(id)) {
-      const cycleStart = stack.indexOf(id);
-      const cycle = stack.slice(cycleStart).concat(id);
-      fail(`Dependency cycle detected: ${cycle.join(" -> ")}`);
+      const cycle = stack.slice(stack.indexOf(id)).concat(id);
+      const key = cycleKey(cycle);
+      if (!seen.has(key)) {
+        seen.add(key);
+        cycles.push(cycle);
+      }
+      return;
     }
     if (visited.has(id)) return;
 
     visiting.add(id);
-    const deps = depsMap.get(id) ?? [];
-    for (const d of deps) {
-      if (!ids.has(d)) fail(`Node '${id}' depends on missing node '${d}'`);
-      dfs(d, stack.concat(id));
+    for (const d of depsMap.get(id) ?? []) {
+      if (ids.has(d)) dfs(d, stack.concat(id));
     }
     visiting.delete(id);
     visited.add(id);
   }
 
   for (const id of ids) dfs(id, []);
+  return cycles;
 }
 
-function distance(a: { x: number; y: number }, b: { x: number; y: number }) {
-  const dx = a.x - b.x;
-  const dy = a.y - b.y;
-  return Math.sqrt(dx * dx + dy * dy);
-}
-
-function main() {
-  const nodesPath = process.argv[2];
-  const schemaPath = process.argv[3];
-  if (!nodesPath || !schemaPath) {
-    fail("Provide paths: validate-nodes.ts <nodes.json> <nodes.schema.json>");
-  }
-
-  const nodesFile = readJson(nodesPath) as NodesFile;
-  const schema = readJson(schemaPath);
+/**
+ * Runs the schema check and every integrity check, returning all diagnostics.
+ */
+export function validateNodesFile(file: unknown, opts: ValidateNodesOptions = {}): NodeDiagnostic[] {
+  const validateSchema = opts.validateSchema ?? defaultSchemaValidator;
+  const diagnostics: NodeDiagnostic[] = [];
+  const nodes: AnyNode[] =
+    file && typeof file === "object" && Array.isArray((file as { nodes?: unknown }).nodes)
+      ? ((file as { nodes: AnyNode[] }).nodes)
+      : [];
+  const nodePath = (i: number) => `$.nodes[${i}]`;
+  const nodeIdAt = (path: string) => {
+    const match = /^\$\.nodes\[(\d+)\]/.exec(path);
+    const id = match ? nodes[Number(match[1])]?.id : undefined;
+    return typeof id === "string" ? id : undefined;
+  };
 
-  const ajv = new Ajv({ allErrors: true, strict: false });
-  addFormats(ajv);
-  const validate = ajv.compile(schema);
-  const ok = validate(nodesFile);
-  if (!ok) {
-    console.error(validate.errors);
-    fail("JSON Schema validation errors (see above).");
+  for (const issue of validateSchema(file)) {
+    diagnostics.push({
+      severity: "error",
+      code: "schema",
+      message: `${issue.path} ${issue.message}`,
+      nodeId: nodeIdAt(issue.path),
+      path: issue.path,
+    });
   }
 
-  const nodes = nodesFile.nodes;
   const ids = new Set<string>();
-  for (const n of nodes) {
-    if (ids.has(n.id)) fail(`Duplicate node id: ${n.id}`);
+  const byId = new Map<string, AnyNode>();
+  nodes.forEach((n, i) => {
+    if (typeof n?.id !== "string") return;
+    if (ids.has(n.id)) {
+      diagnostics.push({
+        severity: "error",
+        code: "duplicate-id",
+        message: `Duplicate node id: ${n.id}`,
+        nodeId: n.id,
+        path: `${nodePath(i)}.id`,
+      });
+    }
     ids.add(n.id);
-  }
-
-  const depsMap = new Map<string, string[]>();
-  const byId = new Map<string, any>();
-  for (const n of nodes) {
-    depsMap.set(n.id, n.dependencies ?? []);
     byId.set(n.id, n);
+  });
+
+  // Blocking edges per node: "required" ones must all be completed, the others belong to an
+  // any-of / phase gate clause that other options can satisfy.
+  const validNodes = nodes.filter((n) => typeof n?.id === "string") as NodeDefinition[];
+  const requiredDeps = new Map<string, string[]>();
+  const blockingDeps = new Map<string, string[]>();
+  for (const n of validNodes) {
+    const edges = dependencyEdges(n, validNodes);
+    requiredDeps.set(n.id, edges.filter((e) => e.required).map((e) => e.to));
+    blockingDeps.set(n.id, edges.map((e) => e.to));
   }
 
-  detectCycles(ids, depsMap);
+  nodes.forEach((n, i) => {
+    const id = n?.id;
+    if (typeof id !== "string") return;
+    for (const ref of referencedNodeIds(n as NodeDefinition)) {
+      if (ids.has(ref.id)) continue;
+      diagnostics.push({
+        severity: "error",
+        code: "missing-dependency",
+        message: `Node '${id}' ${ref.soft ? "recommends" : "depends on"} missing node '${ref.id}'`,
+        nodeId: id,
+        path: `${nodePath(i)}${ref.path}`,
+      });
+    }
+    const rules = Array.isArray(n.dependency_rules) ? n.dependency_rules : [];
+    rules.forEach((rule, k) => {
+      if (!rule || typeof rule !== "object" || typeof rule.min !== "number") return;
+      const options = Array.isArray(rule.any)
+        ? new Set(rule.any).size
+        : typeof rule.phase === "string"
+          ? phaseGateMembers(n as NodeDefinition, rule.phase, validNodes).length
+          : null;
+      if (options == null || rule.min <= options) return;
+      diagnostics.push({
+        severity: "error",
+        code: "unsatisfiable-rule",
+        message: `Node '${id}' rule needs ${rule.min} completed node(s) but only ${options} can count towards it`,
+        nodeId: id,
+        path: `${nodePath(i)}.dependency_rules[${k}].min`,
+      });
+    });
+  });
 
-  for (const n of nodes) {
-    const tp = n.ui_position?.tree;
-    if (!tp) continue;
-    const parent = tp.parent_id;
-    if (parent == null) continue;
-    if (!ids.has(parent)) fail(`Tree node '${n.id}' references missing parent_id '${parent}'`);
+  const reportCycle = (cycle: string[], severity: DiagnosticSeverity, message: string) => {
+    const index = nodes.findIndex((n) => n?.id === cycle[0]);
+    diagnostics.push({
+      severity,
+      code: "dependency-cycle",
+      message,
+      nodeId: cycle[0],
+      path: `${nodePath(index)}.dependencies`,
+    });
+  };
+  const requiredCycles = detectCycles(ids, requiredDeps);
+  for (const cycle of requiredCycles) {
+    reportCycle(cycle, "error", `Dependency cycle detected: ${cycle.join(" -> ")}`);
+  }
+  const reported = new Set(requiredCycles.map(cycleKey));
+  for (const cycle of detectCycles(ids, blockingDeps)) {
+    if (reported.has(cycleKey(cycle))) continue;
+    reportCycle(
+      cycle,
+      "warning",
+      `Dependency cycle through an any-of / phase gate rule: ${cycle.join(" -> ")} (only other options can unlock it)`
+    );
+  }
+
+  nodes.forEach((n, i) => {
+    const parent = n?.ui_position?.tree?.parent_id;
+    if (parent == null || typeof n.id !== "string") return;
+    const path = `${nodePath(i)}.ui_position.tree.parent_id`;
+    if (!ids.has(parent)) {
+      diagnostics.push({
+        severity: "error",
+        code: "missing-parent",
+        message: `Tree node '${n.id}' references missing parent_id '${parent}'`,
+        nodeId: n.id,
+        path,
+      });
+      return;
+    }
     const pt = byId.get(parent)?.type;
     if (pt !== "tree" && pt !== "hybrid") {
-      fail(`Tree node '${n.id}' parent_id '${parent}' is type '${pt}', expected 'tree' or 'hybrid'`);
+      diagnostics.push({
+        severity: "error",
+        code: "parent-type",
+        message: `Tree node '${n.id}' parent_id '${parent}' is type '${pt}', expected 'tree' or 'hybrid'`,
+        nodeId: n.id,
+        path,
+      });
     }
-  }
-
-  const treeNodes = nodes.filter((n) => n.ui_position?.tree);
-  const spiralNodes = nodes.filter((n) => n.ui_position?.spiral);
+  });
 
-  const TREE_MIN_DIST = 8;
-  const SPIRAL_MIN_DIST = 12;
+  const indexed = nodes.map((node, index) => ({ node, index })).filter(({ node }) => typeof node?.id === "string");
+  const treeNodes = indexed.filter(({ node }) => node.ui_position?.tree);
+  const spiralNodes = indexed.filter(({ node }) => node.ui_position?.spiral);
 
   for (let i = 0; i < treeNodes.length; i++) {
     for (let j = i + 1; j < treeNodes.length; j++) {
-      const a = treeNodes[i].ui_position.tree;
-      const b = treeNodes[j].ui_position.tree;
-      if (distance(a, b) < TREE_MIN_DIST) {
-        warn(`Tree nodes too close: ${treeNodes[i].id} and ${treeNodes[j].id}`);
+      const a = treeNodes[i];
+      const b = treeNodes[j];
+      if (distance(a.node.ui_position!.tree!, b.node.ui_position!.tree!) < TREE_MIN_DIST) {
+        diagnostics.push({
+          severity: "warning",
+          code: "tree-proximity",
+          message: `Tree nodes too close: ${a.node.id} and ${b.node.id} (npm run layout:nodes pushes them apart)`,
+          nodeId: a.node.id as string,
+          path: `${nodePath(a.index)}.ui_position.tree`,
+        });
       }
     }
   }
 
-  function polarToXY(s: { theta: number; radius: number }) {
-    return { x: s.radius * Math.cos(s.theta), y: s.radius * Math.sin(s.theta) };
-  }
   for (let i = 0; i < spiralNodes.length; i++) {
     for (let j = i + 1; j < spiralNodes.length; j++) {
-      const a = polarToXY(spiralNodes[i].ui_position.spiral);
-      const b = polarToXY(spiralNodes[j].ui_position.spiral);
-      if (distance(a, b) < SPIRAL_MIN_DIST) {
-        warn(`Spiral nodes too close: ${spiralNodes[i].id} and ${spiralNodes[j].id}`);
+      const a = spiralNodes[i];
+      const b = spiralNodes[j];
+      if (distance(polarToXY(a.node.ui_position!.spiral!), polarToXY(b.node.ui_position!.spiral!)) < SPIRAL_MIN_DIST) {
+        diagnostics.push({
+          severity: "warning",
+          code: "spiral-proximity",
+          message: `Spiral nodes too close: ${a.node.id} and ${b.node.id} (npm run layout:nodes pushes them apart)`,
+          nodeId: a.node.id as string,
+          path: `${nodePath(a.index)}.ui_position.spiral`,
+        });
       }
     }
   }
 
-  console.log("\nOK: nodes.json passes schema + integrity checks.\n");
+  if (opts.lint !== false) {
+    for (const finding of lintNodes(nodes as NodeDefinition[], opts.lint)) {
+      diagnostics.push({
+        severity: finding.severity,
+        code: finding.rule,
+        message: finding.message,
+        nodeId: finding.nodeId,
+        path: finding.path,
+      });
+    }
+  }
+
+  return diagnostics;
 }
 
-main();
+export function hasErrors(diagnostics: NodeDiagnostic[]) {
+  return diagnostics.some((d) => d.severity === "error");
+}
+
+/**
+ * One line per diagnostic, e.g. "error [missing-dependency] $.nodes[1].dependencies[0] (node x): ..."
+ */
+export function formatDiagnostic(d: NodeDiagnostic) {
+  return `${d.severity} [${d.code}] ${d.path}${d.nodeId ? ` (node ${d.nodeId})` : ""}: ${d.message}`;
+}
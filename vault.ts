@@ -0,0 +1,421 @@
+// vault.ts
+// Opt-in at-rest encryption for sensitive text (WebCrypto PBKDF2 -> AES-GCM).
+//
+// Encrypted values are stored in place as "enc:v1:<iv>:<ciphertext>" strings, so ids, foreign keys
+// and timestamps used by Dexie indexes stay plaintext and queryable. WebCrypto is async and would
+// let IndexedDB transactions auto-commit, so values are sealed/opened around reads and writes
+// (see the seal*/open* helpers) instead of inside Dexie hooks. Sealing is idempotent.
+// Sealed: message content and symbol candidates, node state notes, personal meanings,
+// occurrence snippets, thread summaries/motifs and the OpenAI API key.
+// The derived key lives only in memory; reloading or locking requires the passphrase again.
+
+import Dexie from "dexie";
+import { db } from "./db";
+import type {
+  AppSettings,
+  Message,
+  PersonalSymbolMeaning,
+  SymbolMeaningCandidate,
+  SymbolOccurrence,
+  ThreadSummary,
+  UserNodeState,
+  VaultConfig,
+} from "./types";
+
+export const VAULT_SETTINGS_KEY = "vault";
+
+const ENC_PREFIX = "enc:v1:";
+const VERIFIER_PLAINTEXT = "idividream-vault";
+const PBKDF2_ITERATIONS = 310_000;
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+let sessionKey: CryptoKey | null = null;
+let cachedConfig: VaultConfig | null | undefined;
+const listeners = new Set<() => void>();
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function notify() {
+  for (const fn of listeners) fn();
+}
+
+/**
+ * Subscribe to lock/unlock/config changes (used by the lock screen).
+ */
+export function subscribeVault(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+function fromBase64(text: string) {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource, iterations: number) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(ENC_PREFIX);
+}
+
+async function encryptWith(key: CryptoKey, plaintext: string) {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cipher = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return `${ENC_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(cipher))}`;
+}
+
+async function decryptWith(key: CryptoKey, value: string) {
+  const [iv, cipher] = value.slice(ENC_PREFIX.length).split(":");
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    key,
+    fromBase64(cipher)
+  );
+  return new TextDecoder().decode(plain);
+}
+
+export async function getVaultConfig(): Promise<VaultConfig | null> {
+  if (cachedConfig === undefined) {
+    cachedConfig = (await db.appSettings.get(VAULT_SETTINGS_KEY))?.vault ?? null;
+  }
+  return cachedConfig;
+}
+
+export async function isVaultEnabled() {
+  return (await getVaultConfig()) != null;
+}
+
+export function isVaultUnlocked() {
+  return sessionKey != null;
+}
+
+function requireKey() {
+  if (!sessionKey) throw new Error("The vault is locked. Unlock it to read or change private data.");
+  return sessionKey;
+}
+
+// Field codecs
+
+async function sealText(value: string): Promise<string>;
+async function sealText(value: string | undefined): Promise<string | undefined>;
+async function sealText(value: string | undefined) {
+  if (!value || isEncryptedValue(value) || !(await isVaultEnabled())) return value;
+  return encryptWith(requireKey(), value);
+}
+
+async function openText(value: string): Promise<string>;
+async function openText(value: string | undefined): Promise<string | undefined>;
+async function openText(value: string | undefined) {
+  if (!isEncryptedValue(value)) return value;
+  return decryptWith(requireKey(), value);
+}
+
+type TextFn = (value: string) => Promise<string>;
+
+async function mapNodeStateText(state: UserNodeState, fn: TextFn): Promise<UserNodeState> {
+  const commitments = Array.isArray(state.commitments)
+    ? await Promise.all(state.commitments.map(async (c) => ({ ...c, text: await fn(c.text) })))
+    : state.commitments;
+  const completionAnswers = state.completionAnswers
+    ? await Promise.all(state.completionAnswers.map(async (a) => ({ ...a, answer: await fn(a.answer) })))
+    : state.completionAnswers;
+  const completions = Array.isArray(state.completions)
+    ? await Promise.all(state.completions.map(async (p) => (p.notes ? { ...p, notes: await fn(p.notes) } : p)))
+    : state.completions;
+  return {
+    ...state,
+    progressNotes: state.progressNotes ? await fn(state.progressNotes) : state.progressNotes,
+    personalizedSummary: state.personalizedSummary
+      ? await fn(state.personalizedSummary)
+      : state.personalizedSummary,
+    commitments,
+    completionAnswers,
+    completions,
+  };
+}
+
+// Candidate meanings are proposed from the message text, so they are as private as the content.
+async function mapMessageText(message: Message, fn: TextFn): Promise<Message> {
+  const raw = message.metadata?.symbolCandidates;
+  const metadata = Array.isArray(raw)
+    ? {
+        ...message.metadata,
+        symbolCandidates: await Promise.all(
+          (raw as SymbolMeaningCandidate[]).map(async (c) => ({
+            ...c,
+            meanings: await Promise.all((c.meanings ?? []).map(fn)),
+          }))
+        ),
+      }
+    : message.metadata;
+  return { ...message, content: await fn(message.content), metadata };
+}
+
+async function mapThreadSummaryText(summary: ThreadSummary, fn: TextFn): Promise<ThreadSummary> {
+  return {
+    ...summary,
+    summary: summary.summary ? await fn(summary.summary) : summary.summary,
+    keyMotifs: await Promise.all((summary.keyMotifs ?? []).map(fn)),
+  };
+}
+
+async function mapOccurrenceText(occurrence: SymbolOccurrence, fn: TextFn): Promise<SymbolOccurrence> {
+  return {
+    ...occurrence,
+    contextSnippet: occurrence.contextSnippet ? await fn(occurrence.contextSnippet) : occurrence.contextSnippet,
+  };
+}
+
+export async function sealMessage(message: Message): Promise<Message> {
+  return mapMessageText(message, sealText);
+}
+
+export async function openMessage(message: Message): Promise<Message> {
+  return mapMessageText(message, openText);
+}
+
+export async function openMessages(messages: Message[]): Promise<Message[]> {
+  return Promise.all(messages.map(openMessage));
+}
+
+export async function sealNodeState(state: UserNodeState) {
+  return mapNodeStateText(state, sealText);
+}
+
+export async function openNodeState(state: UserNodeState) {
+  return mapNodeStateText(state, openText);
+}
+
+export async function sealSymbolMeaning(meaning: PersonalSymbolMeaning): Promise<PersonalSymbolMeaning> {
+  return { ...meaning, personalMeaning: await sealText(meaning.personalMeaning) };
+}
+
+export async function openSymbolMeaning(meaning: PersonalSymbolMeaning): Promise<PersonalSymbolMeaning> {
+  return { ...meaning, personalMeaning: await openText(meaning.personalMeaning) };
+}
+
+export async function sealThreadSummary(summary: ThreadSummary) {
+  return mapThreadSummaryText(summary, sealText);
+}
+
+export async function openThreadSummary(summary: ThreadSummary) {
+  return mapThreadSummaryText(summary, openText);
+}
+
+export async function sealOccurrences(occurrences: SymbolOccurrence[]) {
+  return Promise.all(occurrences.map((o) => mapOccurrenceText(o, sealText)));
+}
+
+export async function openOccurrences(occurrences: SymbolOccurrence[]) {
+  return Promise.all(occurrences.map((o) => mapOccurrenceText(o, openText)));
+}
+
+export async function openSettings(settings: AppSettings): Promise<AppSettings> {
+  return { ...settings, openAiApiKey: await openText(settings.openAiApiKey) };
+}
+
+/**
+ * Seals the private fields of imported rows (already sealed values are kept). Throws while the
+ * vault is locked and a row still carries plaintext.
+ */
+export async function sealImportedRows(table: string, rows: Record<string, unknown>[]): Promise<Record<string, unknown>[]> {
+  const seal = async <T>(fn: (row: T) => Promise<T>) =>
+    (await Promise.all(rows.map((row) => fn(row as T)))) as Record<string, unknown>[];
+  switch (table) {
+    case "messages":
+      return seal(sealMessage);
+    case "userNodeStates":
+      return seal(sealNodeState);
+    case "personalSymbolMeanings":
+      return seal(sealSymbolMeaning);
+    case "threadSummaries":
+      return seal(sealThreadSummary);
+    case "symbolOccurrences":
+      return seal<SymbolOccurrence>((o) => mapOccurrenceText(o, sealText));
+    case "appSettings":
+      return seal<AppSettings>(async (row) =>
+        row.key === VAULT_SETTINGS_KEY ? row : { ...row, openAiApiKey: await sealText(row.openAiApiKey) }
+      );
+    default:
+      return rows;
+  }
+}
+
+// Bulk rewrite (enable / re-key / disable)
+
+// Reads, crypto and writes share one rw transaction (Dexie.waitFor keeps it alive across WebCrypto
+// calls), so a row written meanwhile can't be overwritten with a stale copy or left in the old format.
+async function rewriteSensitiveData(fn: TextFn, nextConfig: VaultConfig | null) {
+  await db.transaction(
+    "rw",
+    [db.messages, db.userNodeStates, db.personalSymbolMeanings, db.symbolOccurrences, db.threadSummaries, db.appSettings],
+    async () => {
+      const [messages, states, meanings, occurrences, summaries, settings] = await Promise.all([
+        db.messages.toArray(),
+        db.userNodeStates.toArray(),
+        db.personalSymbolMeanings.toArray(),
+        db.symbolOccurrences.toArray(),
+        db.threadSummaries.toArray(),
+        db.appSettings.toArray(),
+      ]);
+
+      const [nextMessages, nextStates, nextMeanings, nextOccurrences, nextSummaries, nextSettings] =
+        await Dexie.waitFor(
+          Promise.all([
+            Promise.all(messages.map((m) => mapMessageText(m, fn))),
+            Promise.all(states.map((s) => mapNodeStateText(s, fn))),
+            Promise.all(meanings.map(async (m) => ({ ...m, personalMeaning: await fn(m.personalMeaning) }))),
+            Promise.all(occurrences.map((o) => mapOccurrenceText(o, fn))),
+            Promise.all(summaries.map((s) => mapThreadSummaryText(s, fn))),
+            Promise.all(
+              settings
+                .filter((s) => s.key !== VAULT_SETTINGS_KEY && s.openAiApiKey)
+                .map(async (s) => ({ ...s, openAiApiKey: await fn(s.openAiApiKey!) }))
+            ),
+          ])
+        );
+
+      await db.messages.bulkPut(nextMessages);
+      await db.userNodeStates.bulkPut(nextStates);
+      await db.personalSymbolMeanings.bulkPut(nextMeanings);
+      await db.symbolOccurrences.bulkPut(nextOccurrences);
+      await db.threadSummaries.bulkPut(nextSummaries);
+      if (nextSettings.length) await db.appSettings.bulkPut(nextSettings);
+      if (nextConfig) {
+        await db.appSettings.put({ key: VAULT_SETTINGS_KEY, vault: nextConfig, updatedAt: nowIso() });
+      } else {
+        await db.appSettings.delete(VAULT_SETTINGS_KEY);
+      }
+    }
+  );
+  cachedConfig = nextConfig;
+}
+
+async function createConfig(passphrase: string, autoLockMinutes: number) {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const config: VaultConfig = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encryptWith(key, VERIFIER_PLAINTEXT),
+    autoLockMinutes,
+    createdAt: nowIso(),
+  };
+  return { key, config };
+}
+
+async function keyFromPassphrase(config: VaultConfig, passphrase: string) {
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    if ((await decryptWith(key, config.verifier)) === VERIFIER_PLAINTEXT) return key;
+  } catch {
+    // AES-GCM authentication failure: wrong passphrase.
+  }
+  throw new Error("Wrong passphrase.");
+}
+
+/**
+ * Turns on vault mode and encrypts all existing sensitive data.
+ */
+export async function enableVault(passphrase: string, autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES) {
+  if (await isVaultEnabled()) throw new Error("The vault is already enabled.");
+  if (passphrase.length < 8) throw new Error("Use a passphrase of at least 8 characters.");
+  const { key, config } = await createConfig(passphrase, autoLockMinutes);
+  await rewriteSensitiveData((value) => (isEncryptedValue(value) ? Promise.resolve(value) : encryptWith(key, value)), config);
+  sessionKey = key;
+  notify();
+}
+
+export async function unlockVault(passphrase: string) {
+  const config = await getVaultConfig();
+  if (!config) return;
+  sessionKey = await keyFromPassphrase(config, passphrase);
+  notify();
+}
+
+export function lockVault() {
+  if (!sessionKey) return;
+  sessionKey = null;
+  notify();
+}
+
+/**
+ * Re-key: decrypts everything with the current passphrase and re-encrypts under a new salt/key.
+ */
+export async function changeVaultPassphrase(currentPassphrase: string, nextPassphrase: string) {
+  const config = await getVaultConfig();
+  if (!config) throw new Error("The vault is not enabled.");
+  if (nextPassphrase.length < 8) throw new Error("Use a passphrase of at least 8 characters.");
+  const oldKey = await keyFromPassphrase(config, currentPassphrase);
+  const { key, config: nextConfig } = await createConfig(nextPassphrase, config.autoLockMinutes);
+  await rewriteSensitiveData(async (value) => {
+    const plain = isEncryptedValue(value) ? await decryptWith(oldKey, value) : value;
+    return encryptWith(key, plain);
+  }, nextConfig);
+  sessionKey = key;
+  notify();
+}
+
+export async function setVaultAutoLock(minutes: number) {
+  const config = await getVaultConfig();
+  if (!config) return;
+  const next = { ...config, autoLockMinutes: Math.max(0, Math.round(minutes)) };
+  await db.appSettings.put({ key: VAULT_SETTINGS_KEY, vault: next, updatedAt: nowIso() });
+  cachedConfig = next;
+  notify();
+}
+
+/**
+ * Turns vault mode off, writing all sensitive data back as plaintext.
+ */
+export async function disableVault(passphrase: string) {
+  const config = await getVaultConfig();
+  if (!config) return;
+  const key = await keyFromPassphrase(config, passphrase);
+  await rewriteSensitiveData(
+    (value) => (isEncryptedValue(value) ? decryptWith(key, value) : Promise.resolve(value)),
+    null
+  );
+  sessionKey = null;
+  notify();
+}
+
+/**
+ * Drops the cached config (e.g. after importing a backup that may carry a different vault row).
+ */
+export function resetVaultCache() {
+  cachedConfig = undefined;
+  sessionKey = null;
+  notify();
+}